@@ -4,6 +4,11 @@ export class AstroNode {
   vector: Float32Array | number[];
   neighbors: string[][]; // neighbors[level][M]
   deleted?: boolean = false;
+  metadata?: Record<string, any>; // arbitrary JSON payload stored with the vector
+  text?: string; // searchable text, indexed for keyword search
+  codes?: Int8Array | Uint8Array; // quantized vector, set when the index is quantized
+  version?: number; // sequence number of the last change, see sync.ts
+  updatedAt?: number; // time of the last change in ms, for sync conflicts
 
   constructor(
     uniqueid: string,
@@ -12,6 +17,8 @@ export class AstroNode {
     M: number,
     neighbors?: string[][],
     deleted: boolean = false,
+    metadata?: Record<string, any>,
+    text?: string,
   ) {
     this.uniqueid = uniqueid;
     this.vector = vector;
@@ -27,6 +34,8 @@ export class AstroNode {
       this.neighbors = [];
     }
     this.deleted = deleted;
+    this.metadata = metadata;
+    this.text = text;
   }
 
   toJSON(): Record<string, any> {
@@ -36,6 +45,11 @@ export class AstroNode {
       vector: Array.from(this.vector),
       neighbors: this.neighbors.map((level) => Array.from(level)),
       deleted: this.deleted,
+      metadata: this.metadata,
+      text: this.text,
+      codes: this.codes ? Array.from(this.codes) : undefined,
+      version: this.version,
+      updatedAt: this.updatedAt,
     };
   }
 
@@ -45,14 +59,25 @@ export class AstroNode {
    * @returns
    */
   static parse(obj: Record<string, any>): AstroNode {
-    return new AstroNode(
+    const node = new AstroNode(
       obj.uniqueid,
       obj.vector,
       obj.level,
       obj.M,
       obj.neighbors,
       obj.deleted,
+      obj.metadata,
+      obj.text,
     );
+    if (obj.codes) {
+      node.codes =
+        obj.codes instanceof Int8Array || obj.codes instanceof Uint8Array
+          ? obj.codes
+          : new Int8Array(obj.codes);
+    }
+    node.version = obj.version;
+    node.updatedAt = obj.updatedAt;
+    return node;
   }
 }
 
@@ -70,8 +95,10 @@ export class AstroNodeWithScore extends AstroNode {
     neighbors?: string[][],
     deleted: boolean = false,
     score: number = 0,
+    metadata?: Record<string, any>,
+    text?: string,
   ) {
-    super(uniqueid, vector, level, M, neighbors, deleted);
+    super(uniqueid, vector, level, M, neighbors, deleted, metadata, text);
     this.score = score;
   }
 
@@ -96,6 +123,8 @@ export class AstroNodeWithScore extends AstroNode {
       obj.neighbors,
       obj.deleted,
       obj.score,
+      obj.metadata,
+      obj.text,
     );
   }
 }
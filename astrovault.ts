@@ -1,109 +1,628 @@
-import { HNSW } from "./hnsw";
-import { openDB, deleteDB, DBSchema, IDBPDatabase } from "idb";
-
-interface HNSWDB extends DBSchema {
-    "hnsw-index": {
-        key: string;
-        value: any;
-    };
+import { BatchOperation, HNSW, IndexType, NodeFilter } from "./hnsw";
+import { Metric } from "./similarity";
+import { TextIndex } from "./textindex";
+import {
+    DEFAULT_COLLECTION,
+    FORMAT_VERSION,
+    migrateFormat,
+} from "./migrations";
+import { StorageAdapter } from "./storage/adapter";
+import { IndexedDBStorage } from "./storage/indexeddb";
+
+export { DEFAULT_COLLECTION };
+
+// how many more candidates than K get rescored in quantized mode
+const RESCORE_FACTOR = 4;
+// rank constant of reciprocal rank fusion, dampens the weight of the top ranks
+const RRF_K = 60;
+// size past which a new flat collection builds its graph, unless told
+// otherwise
+const DEFAULT_FLAT_THRESHOLD = 1000;
+
+export interface HybridSearchOptions {
+    // number of results, 10 by default
+    K?: number;
+    // "rrf" sums 1 / (rrfK + rank) over both rankings, "weighted" mixes
+    // the min-max normalized scores with vectorWeight
+    fusion?: "rrf" | "weighted";
+    rrfK?: number;
+    // share of the vector score in weighted fusion, from 0 to 1
+    vectorWeight?: number;
+    // how many results of each ranking get fused, K * 4 by default
+    candidates?: number;
+    // minimum vector similarity for a node to be in the vector ranking
+    similarityStrength?: number;
+    filter?: NodeFilter;
 }
 
 export class AstroVault extends HNSW {
-    dbName: string;
-    db: IDBPDatabase<HNSWDB> | null = null;
+    // where the collection is saved, several collections can share it
+    storage: StorageAdapter;
+    // name of the graph within the storage
+    collection: string;
+    // nodes changed since the last save, only these get written
+    private dirtyNodes = new Set<string>();
+    // set when the whole graph was replaced and every node must be rewritten
+    private fullSaveNeeded = true;
+    // full precision vectors of a quantized index waiting to be written
+    private pendingVectors = new Map<string, Float32Array>();
+    // BM25 index over the text of the live nodes, rebuilt from the nodes
+    private textIndex = new TextIndex();
 
-    private constructor(M: number, efConstruction: number, dbName: string) {
-        super(M, efConstruction);
-        this.dbName = dbName;
+    private constructor(
+        M: number,
+        efConstruction: number,
+        storage: StorageAdapter,
+        metric: Metric,
+        collection: string,
+        indexType: IndexType,
+        flatThreshold: number | null
+    ) {
+        super(M, efConstruction, null, metric);
+        this.storage = storage;
+        this.collection = collection;
+        this.indexType = indexType;
+        this.flatThreshold = indexType === "flat" ? flatThreshold : null;
     }
 
-    static async create(M: number, efConstruction: number, dbName: string) {
-        const instance = new AstroVault(M, efConstruction, dbName);
-        await instance.initDB();
-        return instance;
+    /**
+     * @param M
+     * @param efConstruction
+     * @param storage - an IndexedDB database name, or any storage adapter
+     * (e.g. MemoryStorage, or FileSystemStorage outside the browser)
+     * @param metric - used for a new index, a loaded index keeps its own
+     * @param collection - name of the graph within the storage
+     * @param indexType - used for a new index: "flat" scans every vector,
+     * exact and fast enough while the collection is small
+     * @param flatThreshold - number of nodes past which a flat index builds
+     * its graph, null to stay flat
+     * @returns
+     */
+    static async create(
+        M: number,
+        efConstruction: number,
+        storage: string | StorageAdapter,
+        metric: Metric = "cosine",
+        collection = DEFAULT_COLLECTION,
+        indexType: IndexType = "hnsw",
+        flatThreshold: number | null = DEFAULT_FLAT_THRESHOLD
+    ) {
+        return new AstroVault(
+            M,
+            efConstruction,
+            typeof storage === "string"
+                ? new IndexedDBStorage(storage)
+                : storage,
+            metric,
+            collection,
+            indexType,
+            flatThreshold
+        );
     }
 
-    private async initDB() {
-        this.db = await openDB<HNSWDB>(this.dbName, 1, {
-            upgrade(db) {
-                db.createObjectStore("hnsw-index");
-            },
-        });
+    protected onNodeChanged(uniqueid: string) {
+        this.dirtyNodes.add(uniqueid);
+        this.indexText(uniqueid);
+    }
+
+    protected onGraphReset() {
+        this.fullSaveNeeded = true;
+        this.dirtyNodes.clear();
+        this.textIndex.clear();
+        for (const uniqueid of this.nodes.keys()) this.indexText(uniqueid);
+    }
+
+    /**
+     * Brings the text index up to date with a node, only re-indexing when
+     * its text changed since most node changes are link updates
+     * @param uniqueid
+     */
+    private indexText(uniqueid: string) {
+        const node = this.nodes.get(uniqueid);
+        const text = node && !node.deleted ? node.text : undefined;
+        if (this.textIndex.getText(uniqueid) === text) return;
+        if (text) {
+            this.textIndex.add(uniqueid, text);
+        } else {
+            this.textIndex.remove(uniqueid);
+        }
+    }
+
+    protected onFullVector(uniqueid: string, vector: Float32Array | number[]) {
+        this.pendingVectors.set(uniqueid, new Float32Array(vector));
+    }
+
+    applyBatch(operations: BatchOperation[]) {
+        const pendingVectors = new Map(this.pendingVectors);
+        try {
+            super.applyBatch(operations);
+        } catch (error) {
+            // full vectors of the rolled back nodes must not be written
+            this.pendingVectors = pendingVectors;
+            throw error;
+        }
+    }
+
+    /**
+     * Full precision vector of a node, in quantized mode from the pending
+     * writes or the storage
+     * @param uniqueid
+     * @returns
+     */
+    async getFullVector(uniqueid: string) {
+        const node = this.nodes.get(uniqueid);
+        if (node && !node.codes) return node.vector;
+        return (
+            this.pendingVectors.get(uniqueid) ??
+            (await this.storage.getVector(this.collection, uniqueid))
+        );
+    }
+
+    /**
+     * getChangesSince with the full precision vectors of quantized nodes
+     * rather than the ones decoded from their codes
+     * @param cursor
+     * @returns
+     */
+    async getFullChangesSince(cursor = 0) {
+        const changeset = this.getChangesSince(cursor);
+        if (this.quantizer) {
+            for (const upsert of changeset.upserts) {
+                const vector = await this.getFullVector(upsert.uniqueid);
+                if (vector) upsert.vector = Array.from(vector);
+            }
+        }
+        return changeset;
+    }
+
+    /**
+     * Record with everything but the nodes, written on every save
+     */
+    private getHeader() {
+        const { nodes, ...header } = this.toJSON();
+        return { ...header, formatVersion: FORMAT_VERSION };
     }
 
+    /**
+     * Persists the header and only the nodes changed since the last save.
+     * Nodes that no longer exist in the graph are deleted from the store.
+     */
     async saveIndex() {
-        if (!this.db) {
-            throw new Error("Database is not initialized");
-            return;
+        const fullSave = this.fullSaveNeeded;
+        const dirtyNodes = this.dirtyNodes;
+        const pendingVectors = this.pendingVectors;
+        this.fullSaveNeeded = false;
+        this.dirtyNodes = new Set<string>();
+        this.pendingVectors = new Map<string, Float32Array>();
+
+        const nodes = new Map<string, Record<string, any> | null>();
+        for (const uniqueid of fullSave ? this.nodes.keys() : dirtyNodes) {
+            nodes.set(uniqueid, this.nodes.get(uniqueid)?.toJSON() ?? null);
+        }
+        const vectors = new Map<string, Float32Array>();
+        for (const [uniqueid, vector] of pendingVectors) {
+            if (this.nodes.has(uniqueid)) vectors.set(uniqueid, vector);
+        }
+
+        try {
+            await this.storage.saveCollection(this.collection, {
+                header: this.getHeader(),
+                full: fullSave,
+                nodes,
+                vectors,
+            });
+        } catch (error) {
+            // keep the changes pending so the next save retries them
+            this.fullSaveNeeded = this.fullSaveNeeded || fullSave;
+            for (const uniqueid of dirtyNodes) this.dirtyNodes.add(uniqueid);
+            for (const [uniqueid, vector] of pendingVectors) {
+                if (!this.pendingVectors.has(uniqueid)) {
+                    this.pendingVectors.set(uniqueid, vector);
+                }
+            }
+            throw error;
         }
-        await this.db.put("hnsw-index", this.toJSON(), "hnsw");
+        this.emit("save", { full: fullSave, nodes: nodes.size });
     }
 
     /**
-     * Loads in the data from the stored database and constructs the graph
+     * Loads in the collection from the storage and constructs the graph.
+     * Records of an older format are migrated, and rewritten by the next
+     * save.
      */
     async loadIndex() {
-        if (!this.db) {
+        const data = await this.storage.loadCollection(this.collection);
+
+        if (!data) {
             throw new Error("No saved HNSW index found");
         }
 
-        const loadedHNSW: AstroVault | undefined = await this.db.get(
-            "hnsw-index",
-            "hnsw"
-        );
+        this.replaceGraph(migrateFormat(data));
+        this.fullSaveNeeded = data.formatVersion !== FORMAT_VERSION;
+        return this.nodes.size;
+    }
 
-        if (!loadedHNSW) {
-            throw new Error("No saved HNSW index found");
+    /**
+     * Replaces the graph with one serialized by toJSON or toBinary
+     * (e.g. coming back from the worker)
+     * @param newHnsw
+     * @returns the number of nodes
+     */
+    updateIndex(newHnsw: JSON | ArrayBuffer) {
+        return this.replaceGraph(newHnsw);
+    }
+
+    /**
+     * Stores a binary snapshot of the whole graph under the given key,
+     * separately from the per-node records. Useful for backups.
+     * @param key
+     */
+    async saveSnapshot(key = "snapshot") {
+        await this.storage.saveSnapshot(this.collection, key, this.toBinary());
+    }
+
+    /**
+     * Replaces the graph with a snapshot stored by saveSnapshot. The next
+     * saveIndex rewrites all the nodes.
+     * @param key
+     * @returns the number of nodes
+     */
+    async loadSnapshot(key = "snapshot") {
+        const snapshot = await this.storage.loadSnapshot(this.collection, key);
+        if (!snapshot) {
+            throw new Error(`No HNSW snapshot found for ${key}`);
         }
+        return this.replaceGraph(snapshot);
+    }
 
-        // Update this HNSW instance with loaded data
-        const hnsw = AstroVault.fromJSON(loadedHNSW);
+    /**
+     * Update this HNSW instance with the data of a serialized graph
+     * @param data output of toJSON or toBinary
+     * @returns the number of nodes
+     */
+    private replaceGraph(data: any) {
+        const hnsw =
+            data instanceof ArrayBuffer
+                ? AstroVault.fromBinary(data)
+                : AstroVault.fromJSON(data);
 
-        this.M = hnsw.M;
-        this.efConstruction = hnsw.efConstruction;
-        this.levelMax = hnsw.levelMax;
-        this.entryPointId = hnsw.entryPointId;
-        this.nodes = hnsw.nodes;
+        this.adopt(hnsw);
 
         return hnsw?.nodes?.size ? hnsw.nodes.size : 0;
     }
 
-    updateIndex(newHnsw: JSON) {
-        const hnsw = AstroVault.fromJSON(newHnsw);
+    /**
+     * Same as searchKNNOptimized, but in quantized mode an over-fetched set
+     * of candidates found on the int8 codes is rescored against the full
+     * precision vectors kept in storage before keeping the top K
+     * @param query
+     * @param K
+     * @param similarityStrength
+     * @param ef
+     * @param beam_size
+     * @param filter
+     * @param exact
+     * @returns
+     */
+    async searchKNNRescored(
+        query: Float32Array | number[],
+        K: number,
+        similarityStrength: number = 0.5,
+        ef: number = this.efConstruction,
+        beam_size: number = 10,
+        filter?: NodeFilter,
+        exact: boolean = false
+    ) {
+        const candidates = this.candidateSearch(K, similarityStrength);
+        return this.rescore(
+            query,
+            this.searchKNNOptimized(
+                query,
+                candidates.K,
+                candidates.similarityStrength,
+                ef,
+                beam_size,
+                filter,
+                exact
+            ),
+            K,
+            similarityStrength
+        );
+    }
 
-        this.M = hnsw.M;
-        this.efConstruction = hnsw.efConstruction;
-        this.levelMax = hnsw.levelMax;
-        this.entryPointId = hnsw.entryPointId;
-        this.nodes = hnsw.nodes;
+    /**
+     * searchKNNBatch with the results of each query rescored as in
+     * searchKNNRescored
+     * @param queries
+     * @param K
+     * @param similarityStrength
+     * @param ef
+     * @param beam_size
+     * @param filter
+     * @param exact
+     * @returns the results of each query, in order
+     */
+    async searchKNNBatchRescored(
+        queries: (Float32Array | number[])[],
+        K: number,
+        similarityStrength: number = 0.5,
+        ef: number = this.efConstruction,
+        beam_size: number = 10,
+        filter?: NodeFilter,
+        exact: boolean = false
+    ) {
+        const candidates = this.candidateSearch(K, similarityStrength);
+        const results = this.searchKNNBatch(
+            queries,
+            candidates.K,
+            candidates.similarityStrength,
+            ef,
+            beam_size,
+            filter,
+            exact
+        );
+        return Promise.all(
+            results.map((found, i) =>
+                this.rescore(queries[i], found, K, similarityStrength)
+            )
+        );
+    }
 
-        return hnsw?.nodes?.size ? hnsw.nodes.size : 0;
+    /**
+     * K and similarityStrength to search with so that rescore can pick the
+     * top K: in quantized mode more candidates, whatever their score on the
+     * codes
+     * @param K
+     * @param similarityStrength
+     * @returns
+     */
+    candidateSearch(K: number, similarityStrength: number) {
+        return this.quantizer
+            ? { K: K * RESCORE_FACTOR, similarityStrength: -Infinity }
+            : { K, similarityStrength };
+    }
+
+    /**
+     * In quantized mode, rescores search candidates (e.g. found by the
+     * worker) against the full precision vectors and keeps the top K above
+     * similarityStrength. Without a quantizer the candidates are returned
+     * as is.
+     * @param query
+     * @param candidates - results of a search made with candidateSearch
+     * @param K
+     * @param similarityStrength
+     * @returns
+     */
+    async rescore<T extends { uniqueid: string; score: number }>(
+        query: Float32Array | number[],
+        candidates: T[],
+        K: number,
+        similarityStrength: number
+    ): Promise<T[]> {
+        if (!this.quantizer) return candidates;
+
+        const rescored = await Promise.all(
+            candidates.map(async (candidate) => {
+                const vector = await this.getFullVector(candidate.uniqueid);
+                // without a stored vector, keep the quantized score
+                if (!vector) return candidate;
+                return {
+                    ...candidate,
+                    score: this.similarityFunction(query, vector),
+                };
+            })
+        );
+
+        return rescored
+            .filter((node) => node.score > similarityStrength)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, K);
+    }
+
+    /**
+     * Same as searchRange, but in quantized mode the nodes found on the
+     * codes are rescored against the full precision vectors and the ones
+     * that fall below the threshold are dropped. Nodes just below the
+     * threshold on the codes but above it at full precision are missed.
+     * @param query
+     * @param threshold
+     * @param maxResults
+     * @param ef
+     * @param beam_size
+     * @param filter
+     * @returns the nodes above the threshold, most similar first
+     */
+    async searchRangeRescored(
+        query: Float32Array | number[],
+        threshold: number,
+        maxResults: number = Infinity,
+        ef: number = this.efConstruction,
+        beam_size: number = 10,
+        filter?: NodeFilter
+    ) {
+        const results = this.searchRange(
+            query,
+            threshold,
+            maxResults,
+            ef,
+            beam_size,
+            filter
+        );
+        if (!this.quantizer) return results;
+
+        await Promise.all(
+            results.map(async (node) => {
+                const vector = await this.getFullVector(node.uniqueid);
+                if (vector) node.score = this.similarityFunction(query, vector);
+            })
+        );
+        return results
+            .filter((node) => node.score > threshold)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Keyword (BM25 over the node texts) and vector search fused into a
+     * single ranking, for queries with exact terms embeddings may miss
+     * @param queryVector
+     * @param queryText
+     * @param options
+     * @returns the top K nodes with their fused score
+     */
+    async hybridSearch(
+        queryVector: Float32Array | number[],
+        queryText: string,
+        options: HybridSearchOptions = {}
+    ) {
+        const {
+            K = 10,
+            fusion = "rrf",
+            rrfK = RRF_K,
+            vectorWeight = 0.5,
+            candidates = K * RESCORE_FACTOR,
+            similarityStrength = -Infinity,
+            filter,
+        } = options;
+
+        const vectorResults = await this.searchKNNRescored(
+            queryVector,
+            candidates,
+            similarityStrength,
+            Math.max(this.efConstruction, candidates),
+            undefined,
+            filter
+        );
+        const textResults = this.textIndex.search(
+            queryText,
+            candidates,
+            (uniqueid) => {
+                const node = this.nodes.get(uniqueid);
+                return !!node && !node.deleted && (!filter || filter(node));
+            }
+        );
+
+        const scores = new Map<string, number>();
+        const fuse = (
+            ranking: { uniqueid: string; score: number }[],
+            weight: number
+        ) => {
+            const max = ranking[0]?.score;
+            const min = ranking[ranking.length - 1]?.score;
+            ranking.forEach(({ uniqueid, score }, rank) => {
+                const fused =
+                    fusion === "rrf"
+                        ? 1 / (rrfK + rank + 1)
+                        : weight *
+                          (max === min ? 1 : (score - min) / (max - min));
+                scores.set(uniqueid, (scores.get(uniqueid) ?? 0) + fused);
+            });
+        };
+        fuse(vectorResults, vectorWeight);
+        fuse(textResults, 1 - vectorWeight);
+
+        return Array.from(scores)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, K)
+            .map(([uniqueid, score]) => ({
+                ...this.nodes.get(uniqueid)!,
+                score,
+            }));
+    }
+
+    /**
+     * Trains a new quantizer of the same kind on the full precision vectors
+     * kept in storage and re-encodes every node, for when the data drifted
+     * away from what the quantizer was trained on
+     * @param sampleSize max number of vectors to train on
+     */
+    async retrainQuantizer(sampleSize = 10000) {
+        if (!this.quantizer) {
+            throw new Error("Index is not quantized");
+        }
+
+        const ids = Array.from(this.nodes.keys());
+        const step = Math.max(1, Math.floor(ids.length / sampleSize));
+        const sample = (
+            await Promise.all(
+                ids
+                    .filter((_, i) => i % step === 0)
+                    .map((uniqueid) => this.getFullVector(uniqueid))
+            )
+        ).filter((vector): vector is Float32Array => !!vector);
+        if (sample.length === 0) {
+            throw new Error("No full precision vectors stored to retrain on");
+        }
+        const quantizer = this.quantizer.retrain(sample, this.random);
+
+        // Encode everything first and swap at the end, so the graph is never
+        // searched with a mix of old and new codes
+        const codes = new Map<string, Int8Array | Uint8Array>();
+        await this.storage.forEachVector(
+            this.collection,
+            (uniqueid, vector) => {
+                if (this.nodes.has(uniqueid)) {
+                    codes.set(uniqueid, quantizer.encode(vector));
+                }
+            }
+        );
+        for (const [uniqueid, vector] of this.pendingVectors) {
+            codes.set(uniqueid, quantizer.encode(vector));
+        }
+
+        for (const node of this.nodes.values()) {
+            // nodes without a stored vector get re-encoded from their codes
+            node.codes =
+                codes.get(node.uniqueid) ??
+                quantizer.encode(this.vectorOf(node));
+            this.nodeChanged(node.uniqueid);
+        }
+        this.quantizer = quantizer;
     }
 
     /**
      * When a new vault version is released that has a new graph building algorithm,
-     * this function will be called to rebuild the graph nodes to restructure the graph
+     * this function will be called to rebuild the graph nodes to restructure the graph.
+     * Emits rebuild events with the progress rather than an add event per node.
      */
     async rebuildGraphNodes(progressCallback?: (progress: number) => void) {
         const oldNodes = Array.from(this.nodes.values());
         this.nodes.clear();
         this.entryPointId = "";
+        this.graphReset();
         const totalNodes = oldNodes.length;
+        const report = (progress: number) => {
+            if (progressCallback) progressCallback(progress);
+            this.emit("rebuild", { progress });
+        };
 
         const processNode = async (index: number) => {
             if (index >= oldNodes.length) {
-                if (progressCallback) progressCallback(100);
+                // the last node already reported 100
+                if (totalNodes === 0) report(100);
                 return;
             }
 
             const node = oldNodes[index];
-            if (!node.deleted && node.uniqueid && node.vector) {
-                await this.addPoint(node.uniqueid, node.vector);
+            const vector = node.codes
+                ? (await this.getFullVector(node.uniqueid)) ??
+                  this.vectorOf(node)
+                : node.vector;
+            if (!node.deleted && node.uniqueid && vector) {
+                this.withoutEvents(() =>
+                    this.addPoint(
+                        node.uniqueid,
+                        vector,
+                        node.metadata,
+                        node.text
+                    )
+                );
+                // relinking isn't a change to sync
+                const rebuilt = this.nodes.get(node.uniqueid)!;
+                rebuilt.version = node.version;
+                rebuilt.updatedAt = node.updatedAt;
             }
 
-            if (progressCallback) {
-                progressCallback(((index + 1) / totalNodes) * 100);
-            }
+            report(((index + 1) / totalNodes) * 100);
 
             // Schedule the next node processing
             setTimeout(() => processNode(index + 1), 0);
@@ -131,15 +650,15 @@ export class AstroVault extends HNSW {
         });
     }
 
+    /**
+     * Deletes the stored records of this collection, the other collections
+     * of the storage are kept
+     */
     async deleteIndex() {
-        if (!this.db) {
-            // console.error('Database is not initialized');
-            return;
-        }
-
         try {
-            await deleteDB(this.dbName);
-            this.initDB();
+            await this.storage.dropCollection(this.collection);
+            this.graphReset();
+            this.pendingVectors.clear();
         } catch (error) {
             // console.error('Failed to delete index:', error);
         }
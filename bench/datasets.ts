@@ -0,0 +1,233 @@
+/**
+ * Datasets for the evaluation harness: synthetic generators, and loaders
+ * for the .fvecs / .ivecs files of the usual ANN benchmarks (SIFT, GIST...)
+ * and for JSONL exports.
+ */
+import { readFileSync } from "fs";
+import { SeededRandom } from "../random";
+
+export interface Dataset {
+    name: string;
+    ids: string[];
+    vectors: Float32Array[];
+    queries: Float32Array[];
+    // ids of the true nearest neighbors of each query, most similar first,
+    // when shipped with the dataset (e.g. SIFT's groundtruth.ivecs)
+    groundTruth?: string[][];
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ * @param random
+ * @returns
+ */
+function gaussian(random: () => number) {
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Vectors uniformly distributed in [-1, 1]^dimension. The worst case for
+ * HNSW: nothing is clustered, so recall is lower than on real embeddings.
+ * @param points
+ * @param dimension
+ * @param queries
+ * @param seed
+ * @returns
+ */
+export function uniformDataset(
+    points: number,
+    dimension: number,
+    queries = 100,
+    seed = 1
+): Dataset {
+    const random = new SeededRandom(seed).next;
+    const sample = () => {
+        const vector = new Float32Array(dimension);
+        for (let i = 0; i < dimension; i++) vector[i] = random() * 2 - 1;
+        return vector;
+    };
+    const vectors = Array.from({ length: points }, sample);
+    return {
+        name: `uniform-${points}x${dimension}`,
+        ids: vectors.map((_, i) => String(i)),
+        vectors,
+        queries: Array.from({ length: queries }, sample),
+    };
+}
+
+/**
+ * Gaussian clusters around random centers, closer to real embeddings where
+ * similar documents group together. Queries are drawn from the same
+ * clusters.
+ * @param points
+ * @param dimension
+ * @param clusters
+ * @param queries
+ * @param spread standard deviation around the centers
+ * @param seed
+ * @returns
+ */
+export function clusteredDataset(
+    points: number,
+    dimension: number,
+    clusters = 20,
+    queries = 100,
+    spread = 0.3,
+    seed = 1
+): Dataset {
+    const random = new SeededRandom(seed).next;
+    const centers = Array.from({ length: clusters }, () => {
+        const center = new Float32Array(dimension);
+        for (let i = 0; i < dimension; i++) center[i] = gaussian(random);
+        return center;
+    });
+    const sample = () => {
+        const center = centers[Math.floor(random() * clusters)];
+        const vector = new Float32Array(dimension);
+        for (let i = 0; i < dimension; i++) {
+            vector[i] = center[i] + gaussian(random) * spread;
+        }
+        return vector;
+    };
+    const vectors = Array.from({ length: points }, sample);
+    return {
+        name: `clustered-${points}x${dimension}-${clusters}`,
+        ids: vectors.map((_, i) => String(i)),
+        vectors,
+        queries: Array.from({ length: queries }, sample),
+    };
+}
+
+/**
+ * Reads an .fvecs file: for each vector, its dimension as an int32
+ * followed by that many float32, little endian
+ * @param path
+ * @param limit only the first vectors are read
+ * @returns
+ */
+export function loadFvecs(path: string, limit = Infinity): Float32Array[] {
+    const buffer = readFileSync(path);
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+    const vectors: Float32Array[] = [];
+    let offset = 0;
+    while (offset < buffer.length && vectors.length < limit) {
+        const dimension = view.getInt32(offset, true);
+        offset += 4;
+        const vector = new Float32Array(dimension);
+        for (let i = 0; i < dimension; i++, offset += 4) {
+            vector[i] = view.getFloat32(offset, true);
+        }
+        vectors.push(vector);
+    }
+    return vectors;
+}
+
+/**
+ * Reads an .ivecs file, laid out as .fvecs with int32 values, e.g. the
+ * ground truth neighbor indexes of each query
+ * @param path
+ * @param limit only the first rows are read
+ * @returns
+ */
+export function loadIvecs(path: string, limit = Infinity): number[][] {
+    const buffer = readFileSync(path);
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+    const rows: number[][] = [];
+    let offset = 0;
+    while (offset < buffer.length && rows.length < limit) {
+        const length = view.getInt32(offset, true);
+        offset += 4;
+        const row: number[] = new Array(length);
+        for (let i = 0; i < length; i++, offset += 4) {
+            row[i] = view.getInt32(offset, true);
+        }
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Reads a JSONL file with one vector per line, either a plain array or an
+ * object with a `vector` (or `embedding`) field and an optional `id`
+ * @param path
+ * @param limit only the first lines are read
+ * @returns
+ */
+export function loadJsonl(
+    path: string,
+    limit = Infinity
+): { ids: string[]; vectors: Float32Array[] } {
+    const ids: string[] = [];
+    const vectors: Float32Array[] = [];
+    const lines = readFileSync(path, "utf8").split("\n");
+    for (let i = 0; i < lines.length && vectors.length < limit; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+        const record = JSON.parse(line);
+        const values = Array.isArray(record)
+            ? record
+            : record.vector ?? record.embedding;
+        if (!Array.isArray(values)) {
+            throw new Error(`No vector on line ${i + 1} of ${path}`);
+        }
+        ids.push(
+            record.id !== undefined ? String(record.id) : String(vectors.length)
+        );
+        vectors.push(new Float32Array(values));
+    }
+    return { ids, vectors };
+}
+
+/**
+ * Loads a dataset from a .fvecs or .jsonl file. Queries come from their own
+ * file when given (with the ground truth of an .ivecs file if any), else
+ * they are the last vectors of the file, held out of the index.
+ * @param path
+ * @param options
+ * @returns
+ */
+export function loadDataset(
+    path: string,
+    options: {
+        queriesPath?: string;
+        groundTruthPath?: string;
+        // number of vectors indexed
+        limit?: number;
+        // number of queries
+        queries?: number;
+    } = {}
+): Dataset {
+    const { queriesPath, groundTruthPath, limit = Infinity } = options;
+    const queryCount = options.queries ?? 100;
+    const read = (file: string, count: number) => {
+        if (file.endsWith(".fvecs")) {
+            const vectors = loadFvecs(file, count);
+            return { ids: vectors.map((_, i) => String(i)), vectors };
+        }
+        if (file.endsWith(".jsonl")) return loadJsonl(file, count);
+        throw new Error(`Unsupported dataset format: ${file}`);
+    };
+
+    if (queriesPath) {
+        const { ids, vectors } = read(path, limit);
+        const queries = read(queriesPath, queryCount).vectors;
+        // ground truth computed on the full file doesn't hold on a part of it
+        const groundTruth =
+            groundTruthPath && limit === Infinity
+                ? loadIvecs(groundTruthPath, queryCount).map((row) =>
+                      row.map((index) => ids[index])
+                  )
+                : undefined;
+        return { name: path, ids, vectors, queries, groundTruth };
+    }
+
+    const { ids, vectors } = read(path, limit + queryCount);
+    const held = Math.min(queryCount, Math.floor(vectors.length / 2));
+    return {
+        name: path,
+        ids: ids.slice(0, vectors.length - held),
+        vectors: vectors.slice(0, vectors.length - held),
+        queries: vectors.slice(vectors.length - held),
+    };
+}
@@ -0,0 +1,234 @@
+/**
+ * Recall and latency evaluation of searchKNNOptimized: builds an index from
+ * a dataset for each M / efConstruction of a grid, then searches it for each
+ * ef / beam_size and compares the results to the exact nearest neighbors.
+ */
+import { HNSW } from "../hnsw";
+import { TopK } from "../pqueue";
+import { Metric, getSimilarityFunction } from "../similarity";
+import type { Dataset } from "./datasets";
+
+export interface EvaluationGrid {
+    M: number[];
+    efConstruction: number[];
+    ef: number[];
+    beamSize: number[];
+}
+
+export interface EvaluationResult {
+    M: number;
+    efConstruction: number;
+    ef: number;
+    beamSize: number;
+    // share of the true K nearest neighbors found, averaged over the queries
+    recall: number;
+    meanMs: number;
+    p95Ms: number;
+    // time to add every vector, shared by the rows of the same index
+    buildMs: number;
+    // rough size of the nodes in memory, see estimateMemory
+    memoryBytes: number;
+}
+
+// rough overhead of a node object, and of each of its per-level arrays
+const NODE_OVERHEAD_BYTES = 96;
+const LEVEL_OVERHEAD_BYTES = 16;
+// queries run before timing, so the JIT has warmed up
+const WARMUP_QUERIES = 10;
+
+/**
+ * Exact K nearest neighbors of each query by brute force, or the ones
+ * shipped with the dataset
+ * @param dataset
+ * @param K
+ * @param metric
+ * @returns the ids of the neighbors of each query, most similar first
+ */
+export function groundTruth(
+    dataset: Dataset,
+    K: number,
+    metric: Metric = "cosine"
+): string[][] {
+    if (
+        dataset.groundTruth &&
+        dataset.groundTruth.length >= dataset.queries.length &&
+        dataset.groundTruth.every((row) => row.length >= K)
+    ) {
+        return dataset.groundTruth.map((row) => row.slice(0, K));
+    }
+
+    const similarity = getSimilarityFunction(metric);
+    return dataset.queries.map((query) => {
+        const top = new TopK<string>(K);
+        dataset.vectors.forEach((vector, i) =>
+            top.push(dataset.ids[i], similarity(query, vector))
+        );
+        return top.toArray().map(({ item }) => item);
+    });
+}
+
+/**
+ * @param dataset
+ * @param M
+ * @param efConstruction
+ * @param metric
+ * @returns the index with every vector of the dataset, and how long adding
+ * them took
+ */
+export function buildIndex(
+    dataset: Dataset,
+    M: number,
+    efConstruction: number,
+    metric: Metric = "cosine"
+) {
+    const hnsw = new HNSW(M, efConstruction, null, metric);
+    const start = performance.now();
+    dataset.vectors.forEach((vector, i) =>
+        hnsw.addPoint(dataset.ids[i], vector)
+    );
+    return { hnsw, buildMs: performance.now() - start };
+}
+
+/**
+ * Rough estimate of the memory taken by the nodes of an index: vectors or
+ * codes, ids, links (one reference each) and a fixed overhead per node and
+ * per level. Engines differ, so it is meant to compare settings rather
+ * than as an exact figure.
+ * @param hnsw
+ * @returns the number of bytes
+ */
+export function estimateMemory(hnsw: HNSW) {
+    let bytes = 0;
+    for (const node of hnsw.nodes.values()) {
+        bytes += NODE_OVERHEAD_BYTES + node.uniqueid.length * 2;
+        // plain arrays take 8 bytes per number
+        bytes +=
+            node.vector instanceof Float32Array
+                ? node.vector.byteLength
+                : node.vector.length * 8;
+        bytes += node.codes?.byteLength ?? 0;
+        for (const level of node.neighbors) {
+            bytes += LEVEL_OVERHEAD_BYTES + level.length * 8;
+        }
+    }
+    return bytes;
+}
+
+/**
+ * @param sorted durations in ascending order
+ * @param p between 0 and 1
+ * @returns
+ */
+function percentile(sorted: number[], p: number) {
+    if (sorted.length === 0) return 0;
+    const index = Math.ceil(p * sorted.length) - 1;
+    return sorted[Math.min(sorted.length - 1, index)];
+}
+
+/**
+ * Searches the index for every query of the dataset and compares the
+ * results to the ground truth
+ * @param hnsw
+ * @param dataset
+ * @param truth output of groundTruth
+ * @param K
+ * @param ef
+ * @param beamSize
+ * @returns recall@K and the query latency
+ */
+export function evaluateSearch(
+    hnsw: HNSW,
+    dataset: Dataset,
+    truth: string[][],
+    K: number,
+    ef: number,
+    beamSize: number
+) {
+    const search = (query: Float32Array) =>
+        hnsw.searchKNNOptimized(query, K, -Infinity, ef, beamSize);
+
+    for (let i = 0; i < Math.min(WARMUP_QUERIES, dataset.queries.length); i++) {
+        search(dataset.queries[i]);
+    }
+
+    let recall = 0;
+    const durations: number[] = [];
+    dataset.queries.forEach((query, i) => {
+        const start = performance.now();
+        const results = search(query);
+        durations.push(performance.now() - start);
+
+        const expected = new Set(truth[i]);
+        const found = results.filter((node) =>
+            expected.has(node.uniqueid)
+        ).length;
+        recall += expected.size > 0 ? found / expected.size : 1;
+    });
+
+    durations.sort((a, b) => a - b);
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+    return {
+        recall: recall / Math.max(1, dataset.queries.length),
+        meanMs: total / Math.max(1, durations.length),
+        p95Ms: percentile(durations, 0.95),
+    };
+}
+
+/**
+ * Evaluates every combination of the grid. One index is built per
+ * M / efConstruction and searched with each ef / beam_size.
+ * @param dataset
+ * @param grid
+ * @param K
+ * @param metric
+ * @param onResult called with each row as soon as it is measured, e.g. to
+ * print progress on long runs
+ * @returns a row per combination
+ */
+export function evaluateGrid(
+    dataset: Dataset,
+    grid: EvaluationGrid,
+    K = 10,
+    metric: Metric = "cosine",
+    onResult?: (result: EvaluationResult) => void
+): EvaluationResult[] {
+    const truth = groundTruth(dataset, K, metric);
+    const results: EvaluationResult[] = [];
+
+    for (const M of grid.M) {
+        for (const efConstruction of grid.efConstruction) {
+            const { hnsw, buildMs } = buildIndex(
+                dataset,
+                M,
+                efConstruction,
+                metric
+            );
+            const memoryBytes = estimateMemory(hnsw);
+
+            for (const ef of grid.ef) {
+                for (const beamSize of grid.beamSize) {
+                    const search = evaluateSearch(
+                        hnsw,
+                        dataset,
+                        truth,
+                        K,
+                        ef,
+                        beamSize
+                    );
+                    const result = {
+                        M,
+                        efConstruction,
+                        ef,
+                        beamSize,
+                        ...search,
+                        buildMs,
+                        memoryBytes,
+                    };
+                    results.push(result);
+                    onResult?.(result);
+                }
+            }
+        }
+    }
+    return results;
+}
@@ -0,0 +1,105 @@
+/**
+ * Recall / latency report over a grid of settings. Run with
+ * `npx tsx bench/recall.ts [options]`, lists being comma separated:
+ *
+ *   --data file.fvecs|file.jsonl  vectors to index, synthetic when not given
+ *   --queries file                query vectors, else held out from --data
+ *   --groundtruth file.ivecs      true neighbors of the queries
+ *   --limit n                     number of vectors read from --data
+ *   --points n --dimension d      size of the synthetic dataset
+ *   --clusters n                  clustered synthetic dataset, 0 for uniform
+ *   --queryCount n --seed n
+ *   --K n --metric name
+ *   --M 8,16 --efConstruction 100,200 --ef 50,100,200 --beamSize 10
+ *   --json                        prints the rows as JSON
+ *
+ * Progress goes to stderr, so the JSON can be piped.
+ */
+import { Metric } from "../similarity";
+import { clusteredDataset, loadDataset, uniformDataset } from "./datasets";
+import { EvaluationResult, evaluateGrid } from "./evaluate";
+
+const options = new Map<string, string>();
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) continue;
+    const next = args[i + 1];
+    const hasValue = next !== undefined && !next.startsWith("--");
+    options.set(args[i].slice(2), hasValue ? next : "true");
+    if (hasValue) i++;
+}
+
+const number = (name: string, fallback: number) =>
+    options.has(name) ? Number(options.get(name)) : fallback;
+const list = (name: string, fallback: number[]) =>
+    options.has(name) ? options.get(name)!.split(",").map(Number) : fallback;
+
+const queryCount = number("queryCount", 100);
+const clusters = number("clusters", 20);
+const data = options.get("data");
+const dataset = data
+    ? loadDataset(data, {
+          queriesPath: options.get("queries"),
+          groundTruthPath: options.get("groundtruth"),
+          limit: number("limit", Infinity),
+          queries: queryCount,
+      })
+    : clusters > 0
+    ? clusteredDataset(
+          number("points", 5000),
+          number("dimension", 64),
+          clusters,
+          queryCount,
+          undefined,
+          number("seed", 1)
+      )
+    : uniformDataset(
+          number("points", 5000),
+          number("dimension", 64),
+          queryCount,
+          number("seed", 1)
+      );
+
+const K = number("K", 10);
+const metric = (options.get("metric") ?? "cosine") as Metric;
+const json = options.has("json");
+
+const format = (result: EvaluationResult) => ({
+    M: result.M,
+    efConstruction: result.efConstruction,
+    ef: result.ef,
+    beamSize: result.beamSize,
+    [`recall@${K}`]: result.recall.toFixed(3),
+    "mean ms": result.meanMs.toFixed(3),
+    "p95 ms": result.p95Ms.toFixed(3),
+    "build ms": result.buildMs.toFixed(0),
+    "memory MB": (result.memoryBytes / 1024 / 1024).toFixed(1),
+});
+
+console.error(
+    `${dataset.name}: ${dataset.vectors.length} vectors, ` +
+        `${dataset.queries.length} queries, ${metric}`
+);
+const results = evaluateGrid(
+    dataset,
+    {
+        M: list("M", [8, 16, 32]),
+        efConstruction: list("efConstruction", [100, 200]),
+        ef: list("ef", [50, 100, 200]),
+        beamSize: list("beamSize", [10]),
+    },
+    K,
+    metric,
+    (result) =>
+        console.error(
+            `M=${result.M} efConstruction=${result.efConstruction} ` +
+                `ef=${result.ef} beamSize=${result.beamSize}: ` +
+                `recall@${K} ${result.recall.toFixed(3)}`
+        )
+);
+
+if (json) {
+    console.log(JSON.stringify(results, null, 2));
+} else {
+    console.table(results.map(format));
+}
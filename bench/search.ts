@@ -0,0 +1,49 @@
+/**
+ * Rough build and search benchmark on random vectors, with recall against
+ * brute force. Run with `npx tsx bench/search.ts [points] [dimension] [queries]`
+ */
+import { HNSW } from "../hnsw";
+import { cosineSimilarity } from "../similarity";
+
+const [points = 1000, dimension = 32, queries = 200] = process.argv
+    .slice(2)
+    .map(Number);
+const K = 10;
+
+function randomVector(d: number) {
+    const vector = new Float32Array(d);
+    for (let i = 0; i < d; i++) vector[i] = Math.random() * 2 - 1;
+    return vector;
+}
+
+const vectors = Array.from({ length: points }, () => randomVector(dimension));
+const queryVectors = Array.from({ length: queries }, () =>
+    randomVector(dimension)
+);
+
+const hnsw = new HNSW(16, 200);
+let start = performance.now();
+vectors.forEach((vector, i) => hnsw.addPoint(String(i), vector));
+const buildMs = performance.now() - start;
+
+let found = 0;
+let searchMs = 0;
+for (const query of queryVectors) {
+    start = performance.now();
+    const results = hnsw.searchKNNOptimized(query, K, -1);
+    searchMs += performance.now() - start;
+
+    const exact = new Set(
+        vectors
+            .map((vector, i) => ({ i, score: cosineSimilarity(query, vector) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, K)
+            .map(({ i }) => String(i))
+    );
+    found += results.filter((result) => exact.has(result.uniqueid)).length;
+}
+
+console.log(`${points} points, ${dimension} dimensions, ${queries} queries`);
+console.log(`build: ${buildMs.toFixed(0)} ms`);
+console.log(`search: ${(searchMs / queries).toFixed(3)} ms/query`);
+console.log(`recall@${K}: ${(found / (queries * K)).toFixed(3)}`);
@@ -4,15 +4,51 @@
  * @returns
  */
 
-import { AstroVault } from "../astrovault";
+import {
+    AstroVault,
+    DEFAULT_COLLECTION,
+    HybridSearchOptions,
+} from "../astrovault";
+import { AstroNode } from "../astronode";
+import { EventEmitter, Listener } from "../events";
+import {
+    BatchOperation,
+    HNSWEventType,
+    HNSWEvents,
+    IndexType,
+    MMR_FETCH_FACTOR,
+    NodeFilter,
+} from "../hnsw";
+import { Metric } from "../similarity";
+import { IndexedDBStorage } from "../storage/indexeddb";
+import { SyncChangeset, SyncSummary } from "../sync";
+import { WorkerSearchResult } from "./protocol";
+import { WorkerClient, abortReason } from "./workerclient";
 
-let astrodb: AstroVault | null = null;
-let hnswWorker: Worker | null = null;
+// format changes are handled by the migrations, no need to change the name
+const DB_NAME = "notes-astrodb-5";
+const storage = new IndexedDBStorage(DB_NAME);
+
+// opened collections by name, the default one backs the functions below
+// that don't take a collection
+const collections = new Map<string, AstroVault>();
+// listeners of subscribeAstroDB by collection name, kept apart from the
+// collections so they outlive reloads and can subscribe before opening
+const subscribers = new Map<string, EventEmitter<HNSWEvents>>();
+let hnswWorker: WorkerClient | null = null;
+// extra workers to search in parallel, created on demand
+const searchWorkers: WorkerClient[] = [];
+// HNSW.version of the default collection each worker's graph matches, the
+// graph is sent again when they differ
+const workerVersions = new Map<WorkerClient, number>();
+
+const createWorker = () =>
+    new WorkerClient(new Worker(new URL("./worker.js", import.meta.url)));
 
 const initializeWorker = () => {
     if (hnswWorker) return;
     try {
-        hnswWorker = new Worker(new URL("./worker.js", import.meta.url));
+        hnswWorker = createWorker();
     } catch (error) {
         console.error("Failed to initialize HNSW worker:", error);
         // Handle the error appropriately, e.g., fallback to non-worker implementation
@@ -25,28 +61,95 @@ initializeWorker();
 let operationQueue: (() => Promise<void>)[] = [];
 let isProcessing = false;
 
+/**
+ * Forwards the events of a collection to the subscribers of its name. Its
+ * current name is looked up on each event, so renames are followed.
+ * @param astrodb
+ */
+const watchCollection = (astrodb: AstroVault) => {
+    astrodb.onAny((type, event) =>
+        subscribers.get(astrodb.collection)?.emit(type, event)
+    );
+    return astrodb;
+};
+
 const createAstroDB = async () => {
-    astrodb = await AstroVault.create(16, 200, "notes-astrodb-5");
+    const astrodb = watchCollection(await AstroVault.create(16, 200, storage));
     try {
         // load the index in from db and initialize the graph
         await astrodb.loadIndex();
     } catch (err) {
-        // probably first time so create the index
+        // only create the index the first time: a saved one that fails to
+        // load (e.g. of a newer format) must not be overwritten
+        if (await storage.loadCollection(DEFAULT_COLLECTION)) throw err;
         astrodb.buildIndex([]);
         await astrodb.saveIndex();
     }
+    collections.set(DEFAULT_COLLECTION, astrodb);
 };
 
 export const getAstroDB = async (): Promise<AstroVault> => {
-    if (astrodb === null) {
+    if (!collections.has(DEFAULT_COLLECTION)) {
         await createAstroDB();
     }
-    if (astrodb === null) {
+    const astrodb = collections.get(DEFAULT_COLLECTION);
+    if (!astrodb) {
         throw new Error("astrodb is null");
     }
     return astrodb;
 };
 
+/**
+ * Sends the graph to the worker if it changed since the worker last got it,
+ * e.g. after an operation that ran on the main thread
+ * @param astrodb
+ * @param worker
+ */
+const syncWorkerGraph = async (astrodb: AstroVault, worker: WorkerClient) => {
+    if (workerVersions.get(worker) === astrodb.version) return;
+    const snapshot = astrodb.toBinary();
+    await worker.request("load", { snapshot }, undefined, [snapshot]);
+    workerVersions.set(worker, astrodb.version);
+};
+
+/**
+ * Runs a request that changes the graph on the worker, then applies its
+ * changes to the main thread graph and saves them
+ * @param astrodb
+ * @param worker
+ * @param send - sends the request
+ * @returns the result of the request
+ */
+const changeOnWorker = async <T>(
+    astrodb: AstroVault,
+    worker: WorkerClient,
+    send: () => Promise<T>
+) => {
+    const applyWorkerChanges = async () => {
+        astrodb.applyChanges(await worker.request("save", {}));
+        workerVersions.set(worker, astrodb.version);
+        await astrodb.saveIndex();
+    };
+
+    await syncWorkerGraph(astrodb, worker);
+    let result: T;
+    try {
+        result = await send();
+    } catch (error) {
+        // also brings over what the failed request changed before throwing,
+        // but a failure doing so (e.g. the worker crashed) must not hide
+        // why the request failed
+        try {
+            await applyWorkerChanges();
+        } catch (syncError) {
+            console.error("Failed to apply the worker changes:", syncError);
+        }
+        throw error;
+    }
+    await applyWorkerChanges();
+    return result;
+};
+
 // Function to add an operation to the queue
 const addOperation = <T>(operation: () => Promise<T>): Promise<T> => {
     return new Promise((resolve, reject) => {
@@ -97,7 +200,10 @@ export const saveIndex = async () => {
     });
 };
 
-export const updateIndex = async (newHNSW: JSON, saveIndex = true) => {
+export const updateIndex = async (
+    newHNSW: JSON | ArrayBuffer,
+    saveIndex = true
+) => {
     return new Promise<void>((resolve, reject) => {
         addOperation(async () => {
             const astrodb = await getAstroDB();
@@ -115,7 +221,9 @@ export const updateIndex = async (newHNSW: JSON, saveIndex = true) => {
 export const addToAstroDB = async (
     uniqueid: string,
     vector: number[],
-    withWorker: boolean = false
+    withWorker: boolean = false,
+    metadata?: Record<string, any>,
+    text?: string
 ) => {
     return new Promise<string>((resolve, reject) => {
         addOperation(async () => {
@@ -130,20 +238,18 @@ export const addToAstroDB = async (
 
             try {
                 if (withWorker && hnswWorker) {
-                    hnswWorker.onmessage = (event) => {
-                        const { updatedHnsw } = event.data;
-                        updateIndex(updatedHnsw);
-                        resolve(uniqueid);
-                    };
-
-                    hnswWorker.postMessage({
-                        operation: "addPoint",
-                        hnsw: astrodb.toJSON(),
-                        uniqueid,
-                        vector,
-                    });
+                    const worker = hnswWorker;
+                    await changeOnWorker(astrodb, worker, () =>
+                        worker.request("add", {
+                            uniqueid,
+                            vector,
+                            metadata,
+                            text,
+                        })
+                    );
+                    resolve(uniqueid);
                 } else {
-                    await astrodb.addPoint(uniqueid, vector);
+                    await astrodb.addPoint(uniqueid, vector, metadata, text);
                     await astrodb.saveIndex();
                     resolve(uniqueid);
                 }
@@ -192,15 +298,120 @@ export const removeMultipleFromAstroDB = async (
 };
 
 /**
- * Update from astrodb by removing the old uniqueid and adding the new one
+ * Applies several adds, updates and removes as one unit and saves once.
+ * If any operation fails, none of them is applied and the error is thrown.
+ * @param operations - e.g. [{ type: "remove", uniqueid }, { type: "add", uniqueid, vector }]
+ * @param saveIndex
+ * @returns
+ */
+export const batchAstroDB = async (
+    operations: BatchOperation[],
+    saveIndex = true
+) => {
+    return new Promise<void>((resolve, reject) => {
+        addOperation(async () => {
+            const astrodb = await getAstroDB();
+            try {
+                astrodb.applyBatch(operations);
+                if (saveIndex) await astrodb.saveIndex();
+                resolve();
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+};
+
+/**
+ * Physically removes the deleted nodes from the graph and repairs the links
+ * of their neighbors. Useful to run occasionally as deleted nodes pile up.
+ * @param progressCallback - called with the progress from 0 to 100
+ * @returns the number of nodes removed
+ */
+export const vacuumAstroDB = async (
+    progressCallback?: (progress: number) => void,
+    saveIndex = true
+) => {
+    return new Promise<number>((resolve, reject) => {
+        addOperation(async () => {
+            const astrodb = await getAstroDB();
+            try {
+                const removed = await astrodb.vacuum(progressCallback);
+                if (saveIndex) await astrodb.saveIndex();
+                resolve(removed);
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+};
+
+/**
+ * Switches the index to quantized vectors to use less memory, either int8
+ * (4x smaller) or product quantization (e.g. 768-d vectors in 96 bytes with
+ * 96 subspaces). The full vectors are kept in IndexedDB to rescore the
+ * search results.
+ * @param mode - "int8" or "pq"
+ * @param subspaces - for "pq", must divide the dimension of the vectors
+ */
+export const quantizeAstroDB = async (
+    mode: "int8" | "pq" = "int8",
+    subspaces = 8,
+    saveIndex = true
+) => {
+    return new Promise<void>((resolve, reject) => {
+        addOperation(async () => {
+            const astrodb = await getAstroDB();
+            try {
+                if (mode === "pq") {
+                    astrodb.quantizeProduct(subspaces);
+                } else {
+                    astrodb.quantize();
+                }
+                if (saveIndex) await astrodb.saveIndex();
+                resolve();
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+};
+
+/**
+ * Retrains the quantizer on the stored full vectors and re-encodes the
+ * index, useful when the data changed a lot since quantizeAstroDB
+ */
+export const retrainQuantizerAstroDB = async (saveIndex = true) => {
+    return new Promise<void>((resolve, reject) => {
+        addOperation(async () => {
+            const astrodb = await getAstroDB();
+            try {
+                await astrodb.retrainQuantizer();
+                if (saveIndex) await astrodb.saveIndex();
+                resolve();
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+};
+
+/**
+ * Replaces the vector of a node in place, repairing the links around it
+ * (see HNSW.updatePoint), on the worker when asked
  * @param uniqueid
  * @param vector
+ * @param withWorker
+ * @param metadata - replaces the node's metadata, kept as is if not given
+ * @param text - replaces the node's text, kept as is if not given
  * @returns
  */
 export const updateVectorAstroDB = async (
     uniqueid: string,
     vector: number[],
-    withWorker: boolean = false
+    withWorker: boolean = false,
+    metadata?: Record<string, any>,
+    text?: string
 ) => {
     return new Promise<string>((resolve, reject) => {
         addOperation(async () => {
@@ -208,20 +419,18 @@ export const updateVectorAstroDB = async (
 
             try {
                 if (withWorker && hnswWorker) {
-                    hnswWorker.onmessage = (event) => {
-                        const { updatedHnsw } = event.data;
-                        updateIndex(updatedHnsw);
-                        resolve(uniqueid);
-                    };
-
-                    hnswWorker.postMessage({
-                        operation: "updatePoint",
-                        hnsw: astrodb.toJSON(),
-                        uniqueid,
-                        vector,
-                    });
+                    const worker = hnswWorker;
+                    await changeOnWorker(astrodb, worker, () =>
+                        worker.request("update", {
+                            uniqueid,
+                            vector,
+                            metadata,
+                            text,
+                        })
+                    );
+                    resolve(uniqueid);
                 } else {
-                    await astrodb.updatePoint(uniqueid, vector);
+                    await astrodb.updatePoint(uniqueid, vector, metadata, text);
                     await astrodb.saveIndex();
                     resolve(uniqueid);
                 }
@@ -233,19 +442,69 @@ export const updateVectorAstroDB = async (
 };
 
 /**
- * Useful for adding many vectors to the graph at once (especially with the worker).
- * It will only add the new vectors that have changed by checking the uniqueid to see if it exists
- * and if the vector has changed.
- * Checks if the vector changed for the uniqueid and then only proceeds to
- * call update vector if it has changed. Also used for importing notes.
+ * Replaces the metadata of a node without re-inserting its vector
  * @param uniqueid
- * @param vector
+ * @param metadata
  * @returns
  */
-export const syncVectorsFromCloud = async (
-    items: { uniqueid: string; vector: number[] }[],
+export const updateMetadataAstroDB = async (
+    uniqueid: string,
+    metadata: Record<string, any> | undefined,
+    saveIndex = true
+) => {
+    return new Promise<string>((resolve, reject) => {
+        addOperation(async () => {
+            const astrodb = await getAstroDB();
+            try {
+                if (!astrodb.setMetadata(uniqueid, metadata)) {
+                    reject(new Error(`No node found for ${uniqueid}`));
+                    return;
+                }
+                if (saveIndex) await astrodb.saveIndex();
+                resolve(uniqueid);
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+};
+
+/**
+ * Changes to send to another copy of the index (e.g. the cloud): the nodes
+ * changed and removed since the cursor of the previous changeset. Quantized
+ * nodes come with their full precision vectors.
+ * @param cursor - cursor of the previous changeset, 0 for every node
+ * @returns a changeset to pass to applyChangesAstroDB on the other copy,
+ * with the cursor of the next call
+ */
+export const getChangesSinceAstroDB = async (
+    cursor = 0
+): Promise<SyncChangeset> => {
+    return new Promise((resolve, reject) => {
+        addOperation(async () => {
+            try {
+                const astrodb = await getAstroDB();
+                resolve(await astrodb.getFullChangesSince(cursor));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+};
+
+/**
+ * Imports the changes of another copy of the index on the worker: nodes are
+ * added, updated and removed, the most recent change of each node winning.
+ * Replaces syncVectorsFromCloud, whose items are upserts with an updatedAt.
+ * @param changeset - e.g. from getChangesSinceAstroDB on the other copy
+ * @param progressCallback
+ * @returns the ids of the nodes added, updated, removed, skipped (older
+ * than the local change or already up to date) and failed (with the error)
+ */
+export const applyChangesAstroDB = async (
+    changeset: Omit<SyncChangeset, "cursor">,
     progressCallback?: (progress: number) => void
-): Promise<void> => {
+): Promise<SyncSummary> => {
     return new Promise((resolve, reject) => {
         addOperation(async () => {
             try {
@@ -253,59 +512,586 @@ export const syncVectorsFromCloud = async (
                 if (!hnswWorker) {
                     initializeWorker();
                 }
-                if (hnswWorker) {
-                    hnswWorker.onmessage = (event) => {
-                        const { updatedHnsw, type, progress } = event.data;
-                        if (type === "progress") {
-                            console.log("Progress: ", progress);
-                            if (progressCallback) progressCallback(progress);
-                        } else {
-                            console.log("Received updated hnsw from worker");
-                            updateIndex(updatedHnsw).then(() => {
-                                resolve();
-                            });
-                        }
-                    };
-
-                    hnswWorker.postMessage({
-                        operation: "syncVectorsFromCloud",
-                        hnsw: astrodb.toJSON(),
-                        items: items,
-                    });
+                if (!hnswWorker) {
+                    throw new Error("The HNSW worker is not available");
                 }
+                const worker = hnswWorker;
+                resolve(
+                    await changeOnWorker(astrodb, worker, () =>
+                        worker.request("sync", { changeset }, progressCallback)
+                    )
+                );
             } catch (e) {
-                console.error("Error in syncVectorFromCloud:", e);
+                console.error("Error in applyChangesAstroDB:", e);
                 reject(e);
             }
         });
     });
 };
 
+const toSimilarityStrength = (similarityStrengthSetting: number) => {
+    // divide by 100 to get a number between 0 and 1 for cosine similarity
+    const similarityStrength = similarityStrengthSetting / 100;
+    // cap to 0.95 to prevent excessively strict similarity
+    return Math.min(0.95, similarityStrength);
+};
+
+/**
+ * Workers with a graph up to date to search, none without a worker
+ * @param astrodb
+ * @param count - more than one to search in parallel, each extra worker
+ * keeps its own copy of the graph
+ */
+const getSearchWorkers = async (astrodb: AstroVault, count: number) => {
+    if (!hnswWorker) return [];
+    try {
+        while (searchWorkers.length < count - 1) {
+            searchWorkers.push(createWorker());
+        }
+    } catch (error) {
+        console.error("Failed to initialize HNSW worker:", error);
+    }
+
+    const workers = [hnswWorker, ...searchWorkers.slice(0, count - 1)];
+    if (
+        workers.some((worker) => workerVersions.get(worker) !== astrodb.version)
+    ) {
+        // queued so the graph isn't sent while a change runs on the worker
+        await addOperation(async () => {
+            await Promise.all(
+                workers.map((worker) => syncWorkerGraph(astrodb, worker))
+            );
+        });
+    }
+    return workers;
+};
+
+/**
+ * Searches the default collection for each query, on the worker when asked
+ * and available, on the main thread otherwise. Filters are functions that
+ * can't be sent to the worker, so filtered searches stay on the main
+ * thread.
+ * @param queries
+ * @param K
+ * @param similarityStrength - between 0 and 1
+ * @param filter
+ * @param exclude - a node left out of the results
+ * @param withWorker
+ * @param signal
+ * @param mmrLambda - when given, the results are diversified with MMR
+ * among more candidates, see HNSW.selectMMR
+ * @param workerCount - workers to split the queries between
+ * @param exact - compare the queries to every node instead of searching
+ * the graph
+ * @returns the results of each query, in order
+ */
+const runSearches = async (
+    queries: (Float32Array | number[])[],
+    K: number,
+    similarityStrength: number,
+    filter: NodeFilter | undefined,
+    exclude: string | undefined,
+    withWorker: boolean,
+    signal?: AbortSignal,
+    mmrLambda?: number,
+    workerCount = 1,
+    exact = false
+) => {
+    const astrodb = await getAstroDB();
+    // MMR picks the K results among more candidates
+    const fetchK = mmrLambda === undefined ? K : K * MMR_FETCH_FACTOR;
+    const pick = <T extends { uniqueid: string; score: number }>(
+        results: T[]
+    ) =>
+        mmrLambda === undefined
+            ? results
+            : astrodb.selectMMR(results, K, mmrLambda);
+
+    const workers =
+        withWorker && !filter
+            ? await getSearchWorkers(
+                  astrodb,
+                  Math.max(1, Math.min(workerCount, queries.length))
+              )
+            : [];
+
+    if (workers.length === 0) {
+        const matches =
+            exclude === undefined
+                ? filter
+                : (node: AstroNode) =>
+                      node.uniqueid !== exclude && (!filter || filter(node));
+        if (signal?.aborted) throw abortReason(signal);
+        const results = await astrodb.searchKNNBatchRescored(
+            queries,
+            fetchK,
+            similarityStrength,
+            Math.max(astrodb.efConstruction, fetchK),
+            undefined,
+            matches,
+            exact
+        );
+        if (signal?.aborted) throw abortReason(signal);
+        return results.map(pick);
+    }
+
+    // in quantized mode the worker gets more candidates, rescored here
+    // against the full vectors
+    const candidates = astrodb.candidateSearch(fetchK, similarityStrength);
+    const request = {
+        K: candidates.K,
+        similarityStrength: candidates.similarityStrength,
+        exclude: exclude === undefined ? undefined : [exclude],
+        exact,
+    };
+    // each worker gets a contiguous part of the queries, so the results
+    // stay in order once put back together
+    const chunkSize = Math.ceil(queries.length / workers.length);
+    const chunks: (Float32Array | number[])[][] = [];
+    for (let i = 0; i < queries.length; i += chunkSize) {
+        chunks.push(queries.slice(i, i + chunkSize));
+    }
+    const workerResults = (
+        await Promise.all(
+            chunks.map((chunk, i) =>
+                chunk.length === 1
+                    ? workers[i]
+                          .request(
+                              "search",
+                              { ...request, vector: chunk[0] },
+                              undefined,
+                              [],
+                              signal
+                          )
+                          .then((results) => [results])
+                    : workers[i].request(
+                          "searchBatch",
+                          { ...request, vectors: chunk },
+                          undefined,
+                          [],
+                          signal
+                      )
+            )
+        )
+    ).flat();
+
+    const results = await Promise.all(
+        workerResults.map(async (found, i) =>
+            pick(
+                await astrodb.rescore(
+                    queries[i],
+                    fromWorkerResults(astrodb, found),
+                    fetchK,
+                    similarityStrength
+                )
+            )
+        )
+    );
+    if (signal?.aborted) throw abortReason(signal);
+    return results;
+};
+
+/**
+ * Main thread nodes of results found by the worker, so they are the same
+ * as the results of a main thread search
+ * @param astrodb
+ * @param results
+ */
+const fromWorkerResults = (
+    astrodb: AstroVault,
+    results: WorkerSearchResult[]
+) => {
+    return results.flatMap(({ uniqueid, score }) => {
+        const node = astrodb.nodes.get(uniqueid);
+        return node ? [{ ...node, score }] : [];
+    });
+};
+
 /**
  *
  * @param vector - the query vector
  * @param numb_nodes - the number of nodes to get back
  * @param similarityStrength - 0 to 100, the similarity strength (where 100 == almost identical)
+ * @param filter - only nodes passing the filter (e.g. on their metadata) are returned
+ * @param withWorker - search in the worker to keep the main thread free,
+ * not possible with a filter
+ * @param signal - aborting it rejects the search, e.g. when a newer query
+ * makes it stale
+ * @param mmrLambda - 0 to 1, diversifies the results with Maximal Marginal
+ * Relevance (1 ranks by relevance only, 0 by diversity only), e.g. to avoid
+ * near-identical chunks in a prompt. Not diversified when not given.
+ * @param exact - compare the query to every node instead of searching the
+ * graph: exact results, but slower on large collections
  */
 export const searchAstroDB = async (
     vector: number[],
     numb_nodes: number,
-    similarityStrengthSetting: number = 50
+    similarityStrengthSetting: number = 50,
+    filter?: NodeFilter,
+    withWorker: boolean = false,
+    signal?: AbortSignal,
+    mmrLambda?: number,
+    exact: boolean = false
 ) => {
-    // divide by 100 to get a number between 0 and 1 for cosine similarity
-    let similarityStrength = similarityStrengthSetting / 100;
-    // cap to 0.95 to prevent excessively strict similarity
-    similarityStrength = Math.min(0.95, similarityStrength);
+    const [results] = await runSearches(
+        [vector],
+        numb_nodes,
+        toSimilarityStrength(similarityStrengthSetting),
+        filter,
+        undefined,
+        withWorker,
+        signal,
+        mmrLambda,
+        undefined,
+        exact
+    );
+    return results;
+};
+
+/**
+ * Same as searchAstroDB for many query vectors at once (e.g. one per
+ * paragraph of a document), sharing the work that doesn't depend on the
+ * query, see HNSW.searchKNNBatch
+ * @param vectors - the query vectors
+ * @param numb_nodes - the number of nodes to get back per query
+ * @param similarityStrength - 0 to 100, the similarity strength (where 100 == almost identical)
+ * @param filter - only nodes passing the filter (e.g. on their metadata) are returned
+ * @param withWorker - search in the worker, not possible with a filter
+ * @param signal - aborting it rejects the whole batch
+ * @param workers - with withWorker, the number of workers to split the
+ * queries between. Each worker keeps a copy of the graph in memory.
+ * @returns the results of each query, in order
+ */
+export const searchBatchAstroDB = async (
+    vectors: number[][],
+    numb_nodes: number,
+    similarityStrengthSetting: number = 50,
+    filter?: NodeFilter,
+    withWorker: boolean = false,
+    signal?: AbortSignal,
+    workers: number = 1
+) => {
+    return runSearches(
+        vectors,
+        numb_nodes,
+        toSimilarityStrength(similarityStrengthSetting),
+        filter,
+        undefined,
+        withWorker,
+        signal,
+        undefined,
+        workers
+    );
+};
 
+/**
+ * "More like this": the nodes most similar to an existing node, which is
+ * left out of the results
+ * @param uniqueid - the node to find similar ones to
+ * @param numb_nodes - the number of nodes to get back
+ * @param similarityStrength - 0 to 100, the similarity strength (where 100 == almost identical)
+ * @param filter - only nodes passing the filter (e.g. on their metadata) are returned
+ * @param withWorker - search in the worker, not possible with a filter
+ * @param signal - aborting it rejects the search
+ */
+export const searchSimilarAstroDB = async (
+    uniqueid: string,
+    numb_nodes: number,
+    similarityStrengthSetting: number = 50,
+    filter?: NodeFilter,
+    withWorker: boolean = false,
+    signal?: AbortSignal
+) => {
     const astrodb = await getAstroDB();
-    const results = await astrodb.searchKNNOptimized(
-        vector,
+    const vector = await astrodb.getFullVector(uniqueid);
+    if (!vector) {
+        throw new Error(`No node found for ${uniqueid}`);
+    }
+    const [results] = await runSearches(
+        [vector],
         numb_nodes,
-        similarityStrength
+        toSimilarityStrength(similarityStrengthSetting),
+        filter,
+        uniqueid,
+        withWorker,
+        signal
     );
     return results;
 };
 
+/**
+ * Every node above a similarity, e.g. "all the notes with a similarity
+ * above 80", instead of a fixed number of nodes
+ * @param vector - the query vector
+ * @param similarityStrength - 0 to 100, the similarity strength (where 100 == almost identical)
+ * @param maxResults - safety limit on the number of nodes returned, the most
+ * similar ones are kept
+ * @param filter - only nodes passing the filter (e.g. on their metadata) are returned
+ */
+export const searchRangeAstroDB = async (
+    vector: number[],
+    similarityStrengthSetting: number,
+    maxResults: number = Infinity,
+    filter?: NodeFilter
+) => {
+    const astrodb = await getAstroDB();
+    return astrodb.searchRangeRescored(
+        vector,
+        toSimilarityStrength(similarityStrengthSetting),
+        maxResults,
+        undefined,
+        undefined,
+        filter
+    );
+};
+
+/**
+ * Brings in the collections of a database used under another name, e.g.
+ * by an older version of the app, without losing their vectors. Opened
+ * collections that got imported are reloaded.
+ * @param oldDbName
+ * @param deleteOld - delete the old database once imported, it is kept
+ * if a collection was skipped because it already has nodes here
+ * @returns the names of the imported collections
+ */
+export const importFromDatabase = async (
+    oldDbName: string,
+    deleteOld = false
+) => {
+    return addOperation(async () => {
+        const imported = await IndexedDBStorage.importDatabase(
+            oldDbName,
+            DB_NAME,
+            deleteOld
+        );
+        for (const name of imported) {
+            await collections.get(name)?.loadIndex();
+        }
+        return imported;
+    });
+};
+
+/**
+ * Creates an empty collection, an independent graph stored in the same
+ * database with its own dimension, metric and M/efConstruction
+ * @param name
+ * @param M
+ * @param efConstruction
+ * @param metric
+ * @param indexType - "flat" for an exact index that builds its graph once
+ * it grows past flatThreshold nodes, see AstroVault.create
+ * @param flatThreshold
+ * @returns
+ */
+export const createCollection = async (
+    name: string,
+    M: number = 16,
+    efConstruction: number = 200,
+    metric: Metric = "cosine",
+    indexType: IndexType = "hnsw",
+    flatThreshold?: number | null
+) => {
+    return addOperation(async () => {
+        const existing = await storage.listCollections();
+        if (existing.some((collection) => collection.name === name)) {
+            throw new Error(`A collection named ${name} already exists`);
+        }
+        const collection = watchCollection(
+            await AstroVault.create(
+                M,
+                efConstruction,
+                storage,
+                metric,
+                name,
+                indexType,
+                flatThreshold
+            )
+        );
+        collection.buildIndex([]);
+        await collection.saveIndex();
+        collections.set(name, collection);
+        return collection;
+    });
+};
+
+/**
+ * @returns the saved collections with their config and number of nodes
+ */
+export const listCollections = async () => {
+    return addOperation(() => storage.listCollections());
+};
+
+/**
+ * Opens a collection created by createCollection, loading it on first use
+ * @param name
+ * @returns
+ */
+export const getCollection = async (name: string): Promise<AstroVault> => {
+    if (name === DEFAULT_COLLECTION) return getAstroDB();
+    const opened = collections.get(name);
+    if (opened) return opened;
+
+    return addOperation(async () => {
+        // may have been opened while waiting in the queue
+        if (collections.has(name)) return collections.get(name)!;
+        const collection = watchCollection(
+            await AstroVault.create(16, 200, storage, "cosine", name)
+        );
+        try {
+            await collection.loadIndex();
+        } catch (error) {
+            // a saved collection that fails to load (e.g. of a newer format,
+            // or corrupted) is not missing: keep the real cause
+            if (await storage.loadCollection(name)) throw error;
+            throw new Error(`No collection named ${name}`);
+        }
+        collections.set(name, collection);
+        return collection;
+    });
+};
+
+/**
+ * Deletes a collection and everything stored in it
+ * @param name
+ */
+export const dropCollection = async (name: string) => {
+    return addOperation(async () => {
+        await storage.dropCollection(name);
+        const collection = collections.get(name);
+        if (collection) {
+            collection.buildIndex([]);
+            collections.delete(name);
+        }
+    });
+};
+
+/**
+ * Renames a collection, pending changes of the opened collection are
+ * saved first. Subscriptions stay with the name: those to the new name
+ * receive its events from then on.
+ * @param from
+ * @param to
+ */
+export const renameCollection = async (from: string, to: string) => {
+    return addOperation(async () => {
+        const collection = collections.get(from);
+        if (collection) await collection.saveIndex();
+        await storage.renameCollection(from, to);
+        if (collection) {
+            collection.collection = to;
+            collections.delete(from);
+            collections.set(to, collection);
+        }
+    });
+};
+
+/**
+ * Calls the listener on each event of the given type in a collection, so
+ * views can react to changes instead of polling getSingleAstroDBNode.
+ * Changes made on the worker (e.g. applyChangesAstroDB) are included, once
+ * they are applied to the graph of this thread. The collection doesn't
+ * need to be opened yet.
+ * @param type - add, update, remove, vacuum, rebuild, load or save
+ * @param listener - receives the event, see HNSWEvents
+ * @param collection - the collection, the default one if not given
+ * @returns a function that unsubscribes the listener
+ */
+export const subscribeAstroDB = <T extends HNSWEventType>(
+    type: T,
+    listener: Listener<HNSWEvents, T>,
+    collection: string = DEFAULT_COLLECTION
+) => {
+    let emitter = subscribers.get(collection);
+    if (!emitter) {
+        emitter = new EventEmitter<HNSWEvents>();
+        subscribers.set(collection, emitter);
+    }
+    return emitter.on(type, listener);
+};
+
+/**
+ * Adds a vector to a collection other than the default one
+ * @param name - the collection
+ * @param uniqueid
+ * @param vector
+ * @param metadata
+ * @param text
+ * @returns
+ */
+export const addToCollection = async (
+    name: string,
+    uniqueid: string,
+    vector: number[],
+    metadata?: Record<string, any>,
+    text?: string
+) => {
+    const collection = await getCollection(name);
+    return addOperation(async () => {
+        collection.addPoint(uniqueid, vector, metadata, text);
+        await collection.saveIndex();
+        return uniqueid;
+    });
+};
+
+export const removeFromCollection = async (
+    name: string,
+    uniqueid: string,
+    saveIndex = true
+) => {
+    const collection = await getCollection(name);
+    return addOperation(async () => {
+        collection.removePoint(uniqueid);
+        if (saveIndex) await collection.saveIndex();
+        return uniqueid;
+    });
+};
+
+/**
+ * Same as searchAstroDB on a specific collection
+ * @param name - the collection
+ * @param vector - the query vector
+ * @param numb_nodes - the number of nodes to get back
+ * @param similarityStrength - 0 to 100, the similarity strength (where 100 == almost identical)
+ * @param filter - only nodes passing the filter (e.g. on their metadata) are returned
+ */
+export const searchCollection = async (
+    name: string,
+    vector: number[],
+    numb_nodes: number,
+    similarityStrengthSetting: number = 50,
+    filter?: NodeFilter
+) => {
+    const similarityStrength = toSimilarityStrength(similarityStrengthSetting);
+
+    const collection = await getCollection(name);
+    return collection.searchKNNRescored(
+        vector,
+        numb_nodes,
+        similarityStrength,
+        undefined,
+        undefined,
+        filter
+    );
+};
+
+/**
+ * Keyword and vector search combined, e.g. to find notes mentioning an
+ * exact error code or name that the embedding alone misses
+ * @param vector - the query vector
+ * @param text - the query text, matched against the text of the nodes
+ * @param numb_nodes - the number of nodes to get back
+ * @param options - fusion method and weights, see HybridSearchOptions
+ */
+export const hybridSearchAstroDB = async (
+    vector: number[],
+    text: string,
+    numb_nodes: number,
+    options: Omit<HybridSearchOptions, "K"> = {}
+) => {
+    const astrodb = await getAstroDB();
+    return astrodb.hybridSearch(vector, text, { ...options, K: numb_nodes });
+};
+
 export const getSingleAstroDBNode = async (uniqueid: string) => {
     const astrodb = await getAstroDB();
     return astrodb.nodes.get(uniqueid);
@@ -0,0 +1,101 @@
+import type { CollectionChanges } from "../storage/adapter";
+import type { SyncChangeset, SyncSummary } from "../sync";
+
+/**
+ * Messages exchanged with the worker. The worker keeps its graph between
+ * requests, so only the request arguments go in and only results or the
+ * changes since the last save come back. Every request carries an id that
+ * its response repeats, which lets several requests be in flight at once.
+ * A request can be cancelled with a cancel message carrying its id: it is
+ * skipped if it hasn't started yet, and gets no response.
+ */
+
+export interface WorkerSearchResult {
+    uniqueid: string;
+    score: number;
+    metadata?: Record<string, any>;
+    text?: string;
+}
+
+export interface WorkerStats {
+    // HNSW.version of the graph of the worker
+    version: number;
+    size: number;
+    deleted: number;
+    d: number | null;
+    levelMax: number;
+    metric: string;
+    quantized: boolean;
+}
+
+/**
+ * Arguments of each request type
+ */
+export interface WorkerRequests {
+    // replaces the graph of the worker with a toBinary snapshot
+    load: { snapshot: ArrayBuffer };
+    add: {
+        uniqueid: string;
+        vector: number[];
+        metadata?: Record<string, any>;
+        text?: string;
+    };
+    update: {
+        uniqueid: string;
+        vector: number[];
+        metadata?: Record<string, any>;
+        text?: string;
+    };
+    remove: { uniqueid: string };
+    // imports the changes of another copy of the index, reporting progress,
+    // see HNSW.applySyncChanges
+    sync: { changeset: Omit<SyncChangeset, "cursor"> };
+    // exclude: ids left out of the results, e.g. the node itself when
+    // looking for similar ones. exact: scan every node, see
+    // HNSW.searchKNNOptimized
+    search: {
+        vector: Float32Array | number[];
+        K: number;
+        similarityStrength: number;
+        exclude?: string[];
+        exact?: boolean;
+    };
+    searchBatch: {
+        vectors: (Float32Array | number[])[];
+        K: number;
+        similarityStrength: number;
+        exclude?: string[];
+        exact?: boolean;
+    };
+    // hands over the changes made since the last save
+    save: {};
+    stats: {};
+}
+
+/**
+ * Result of each request type
+ */
+export interface WorkerResults {
+    load: number;
+    add: string;
+    update: string;
+    remove: string;
+    sync: SyncSummary;
+    search: WorkerSearchResult[];
+    searchBatch: WorkerSearchResult[][];
+    save: CollectionChanges;
+    stats: WorkerStats;
+}
+
+export type WorkerRequestType = keyof WorkerRequests;
+
+export type WorkerRequest = {
+    [T in WorkerRequestType]: { id: number; type: T } & WorkerRequests[T];
+}[WorkerRequestType];
+
+export type WorkerMessage = WorkerRequest | { id: number; type: "cancel" };
+
+export type WorkerResponse =
+    | { id: number; type: "result"; result: WorkerResults[WorkerRequestType] }
+    | { id: number; type: "error"; message: string }
+    | { id: number; type: "progress"; progress: number };
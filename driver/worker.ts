@@ -1,77 +1,259 @@
-const { HNSW } = require("../astrovault");
-
-const syncVectorsFromCloud = async (items, hnswInstance) => {
-    return new Promise(async (resolve) => {
-        for (let i = 0; i < items.length; i++) {
-            try {
-                const item = items[i];
-                const existingVector =
-                    hnswInstance.nodes.get(item.uniqueid)?.vector ?? null;
-                if (!item.vector || item.vector.length === 0) {
-                    console.log("Vector is empty for item: ", item);
-                    continue;
-                }
-                // First check if the node exists in the graph
-                if (existingVector) {
-                    // Only if vector changed, then update it
-                    if (
-                        !existingVector?.every(
-                            (value, index) => value === item.vector[index]
-                        )
-                    ) {
-                        await hnswInstance.updatePoint(
-                            item.uniqueid,
-                            item.vector
-                        );
-                    }
-                } else {
-                    // if vector doesn't exist, add it
-                    await hnswInstance.addPoint(item.uniqueid, item.vector);
-                }
-
-                // Send progress update to main thread
-                if ((i + 1) % 25 === 0) {
-                    const progress = ((i + 1) / items.length) * 100;
-                    self.postMessage({ type: "progress", progress });
-                }
-            } catch (error) {
-                console.error(`Error processing item ${i}:`, error);
-                // Continue with next item
+import { HNSW } from "../hnsw";
+import type { CollectionChanges } from "../storage/adapter";
+import type {
+    WorkerMessage,
+    WorkerRequest,
+    WorkerRequestType,
+    WorkerRequests,
+    WorkerResponse,
+    WorkerResults,
+    WorkerSearchResult,
+} from "./protocol";
+
+const ctx = self as unknown as Worker;
+
+const post = (response: WorkerResponse) => {
+    ctx.postMessage(response);
+};
+
+/**
+ * Graph kept by the worker between requests. It records what changed since
+ * the last save, the same way AstroVault does, so only those changes are
+ * sent back to the main thread.
+ */
+class WorkerGraph extends HNSW {
+    private changedNodes = new Set<string>();
+    private fullVectors = new Map<string, Float32Array>();
+    private fullChange = false;
+
+    protected onNodeChanged(uniqueid: string) {
+        this.changedNodes.add(uniqueid);
+    }
+
+    protected onGraphReset() {
+        this.fullChange = true;
+        this.changedNodes.clear();
+    }
+
+    protected onFullVector(uniqueid: string, vector: Float32Array | number[]) {
+        this.fullVectors.set(uniqueid, new Float32Array(vector));
+    }
+
+    /**
+     * Replaces the graph with a toBinary snapshot of the main thread's one,
+     * nothing is left to send back afterwards
+     * @param snapshot
+     */
+    load(snapshot: ArrayBuffer) {
+        this.adopt(HNSW.fromBinary(snapshot));
+        this.fullChange = false;
+        this.changedNodes.clear();
+        this.fullVectors.clear();
+    }
+
+    /**
+     * @returns the changes since the last save, in the layout of
+     * AstroVault.saveIndex
+     */
+    takeChanges(): CollectionChanges {
+        const nodes = new Map<string, Record<string, any> | null>();
+        for (const uniqueid of this.fullChange
+            ? this.nodes.keys()
+            : this.changedNodes) {
+            nodes.set(uniqueid, this.nodes.get(uniqueid)?.toJSON() ?? null);
+        }
+        const vectors = new Map<string, Float32Array>();
+        for (const [uniqueid, vector] of this.fullVectors) {
+            if (this.nodes.has(uniqueid)) vectors.set(uniqueid, vector);
+        }
+        const { nodes: _, ...header } = this.toJSON();
+        const changes = { header, full: this.fullChange, nodes, vectors };
+
+        this.fullChange = false;
+        this.changedNodes = new Set<string>();
+        this.fullVectors = new Map<string, Float32Array>();
+        return changes;
+    }
+}
+
+const graph = new WorkerGraph();
+
+// Requests waiting to run, the id of the running one and the ids of the
+// ones cancelled
+const queue: WorkerRequest[] = [];
+let running: number | null = null;
+const cancelled = new Set<number>();
+let draining = false;
+// Queries of a batch run between two checks for cancellation
+const BATCH_CHUNK = 8;
+
+/**
+ * Waits for the next task, so the messages posted meanwhile (e.g. a
+ * cancel) are received first
+ */
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Searches the graph for each vector, leaving out the excluded ids
+ * @param vectors
+ * @param K
+ * @param similarityStrength
+ * @param exclude
+ * @param exact
+ * @returns the results of each vector without the vectors and links of
+ * the nodes
+ */
+const search = (
+    vectors: (Float32Array | number[])[],
+    K: number,
+    similarityStrength: number,
+    exclude?: string[],
+    exact = false
+): WorkerSearchResult[][] => {
+    const excluded = exclude?.length ? new Set(exclude) : null;
+    // scores of a quantized graph come from the codes, the full vectors
+    // to rescore with are only stored on the main thread
+    return graph
+        .searchKNNBatch(
+            vectors,
+            K,
+            similarityStrength,
+            // K can be over ef when candidates are fetched for MMR
+            Math.max(graph.efConstruction, K),
+            undefined,
+            excluded ? (node) => !excluded.has(node.uniqueid) : undefined,
+            exact
+        )
+        .map((results) =>
+            results.map(({ uniqueid, score, metadata, text }) => ({
+                uniqueid,
+                score,
+                metadata,
+                text,
+            }))
+        );
+};
+
+const handlers: {
+    [T in WorkerRequestType]: (
+        request: WorkerRequests[T],
+        id: number
+    ) => WorkerResults[T] | Promise<WorkerResults[T]>;
+} = {
+    load: ({ snapshot }) => {
+        graph.load(snapshot);
+        return graph.nodes.size;
+    },
+    add: ({ uniqueid, vector, metadata, text }) => {
+        graph.addPoint(uniqueid, vector, metadata, text);
+        return uniqueid;
+    },
+    update: ({ uniqueid, vector, metadata, text }) => {
+        graph.updatePoint(uniqueid, vector, metadata, text);
+        return uniqueid;
+    },
+    remove: ({ uniqueid }) => {
+        graph.removePoint(uniqueid);
+        return uniqueid;
+    },
+    sync: ({ changeset }, id) =>
+        graph.applySyncChanges(changeset, (progress) =>
+            post({ id, type: "progress", progress })
+        ),
+    search: ({ vector, K, similarityStrength, exclude, exact }) =>
+        search([vector], K, similarityStrength, exclude, exact)[0],
+    searchBatch: async (
+        { vectors, K, similarityStrength, exclude, exact },
+        id
+    ) => {
+        const results: WorkerSearchResult[][] = [];
+        for (let i = 0; i < vectors.length; i += BATCH_CHUNK) {
+            if (i > 0) {
+                await nextTask();
+                if (cancelled.has(id)) return results;
             }
+            results.push(
+                ...search(
+                    vectors.slice(i, i + BATCH_CHUNK),
+                    K,
+                    similarityStrength,
+                    exclude,
+                    exact
+                )
+            );
         }
-        resolve();
-    });
+        return results;
+    },
+    save: () => graph.takeChanges(),
+    stats: () => {
+        let deleted = 0;
+        for (const node of graph.nodes.values()) if (node.deleted) deleted++;
+        return {
+            version: graph.version,
+            size: graph.nodes.size - deleted,
+            deleted,
+            d: graph.d,
+            levelMax: graph.levelMax,
+            metric: graph.metric,
+            quantized: !!graph.quantizer,
+        };
+    },
 };
 
-self.onmessage = (event) => {
+const handle = async (request: WorkerRequest) => {
+    const { id, type } = request;
     try {
-        const { operation, hnsw, uniqueid, vector, items } = event.data;
-
-        // Deserialize HNSW
-        const hnswInstance = HNSW.fromJSON(hnsw);
-        let updatedHnsw = null;
-        switch (operation) {
-            case "addPoint":
-                hnswInstance.addPoint(uniqueid, vector);
-                updatedHnsw = hnswInstance.toJSON();
-                self.postMessage({ updatedHnsw });
-                break;
-            case "updatePoint":
-                hnswInstance.updatePoint(uniqueid, vector);
-                updatedHnsw = hnswInstance.toJSON();
-                self.postMessage({ updatedHnsw });
-                break;
-            case "syncVectorsFromCloud":
-                console.log("SYNCING VECTORS FROM CLOUD");
-                syncVectorsFromCloud(items, hnswInstance).then(() => {
-                    updatedHnsw = hnswInstance.toJSON();
-                    self.postMessage({ updatedHnsw });
-                });
-                break;
-            default:
-                throw new Error(`Unknown operation: ${operation}`);
+        const handler = handlers[type] as (
+            request: WorkerRequest,
+            id: number
+        ) => Promise<WorkerResults[WorkerRequestType]>;
+        if (!handler) {
+            throw new Error(`Unknown request: ${type}`);
         }
+        const result = await handler(request, id);
+        if (!cancelled.has(id)) post({ id, type: "result", result });
     } catch (error) {
-        console.error("Error in worker: ", error);
+        post({
+            id,
+            type: "error",
+            message: error instanceof Error ? error.message : String(error),
+        });
+    }
+};
+
+/**
+ * Runs the queued requests one at a time in the order they arrived, so a
+ * save sent right after an add returns the changes of that add. Searches
+ * wait for the next task first, so a newer query can cancel a stale one
+ * before it runs.
+ */
+const drain = async () => {
+    if (draining) return;
+    draining = true;
+    while (queue.length > 0) {
+        const request = queue[0];
+        if (request.type === "search" || request.type === "searchBatch") {
+            await nextTask();
+        }
+        queue.shift();
+        running = request.id;
+        if (!cancelled.has(request.id)) await handle(request);
+        running = null;
+        cancelled.delete(request.id);
+    }
+    draining = false;
+};
+
+ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const message = event.data;
+    if (message.type === "cancel") {
+        // ignored once the request is done
+        const { id } = message;
+        if (running === id || queue.some((request) => request.id === id)) {
+            cancelled.add(id);
+        }
+        return;
     }
+    queue.push(message);
+    drain();
 };
@@ -0,0 +1,133 @@
+import type {
+    WorkerMessage,
+    WorkerRequest,
+    WorkerRequestType,
+    WorkerRequests,
+    WorkerResponse,
+    WorkerResults,
+} from "./protocol";
+
+interface PendingRequest {
+    resolve: (result: any) => void;
+    reject: (error: any) => void;
+    onProgress?: (progress: number) => void;
+}
+
+/**
+ * @param signal
+ * @returns the error to reject with once the signal is aborted
+ */
+export const abortReason = (signal: AbortSignal) =>
+    signal.reason ??
+    new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Main thread side of the worker protocol. Each request gets an id and a
+ * promise settled by the response with the same id, so any number of
+ * requests can be in flight.
+ */
+export class WorkerClient {
+    private nextId = 1;
+    private pending = new Map<number, PendingRequest>();
+
+    constructor(private worker: Worker) {
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+            this.onResponse(event.data);
+        worker.onerror = (event) => {
+            this.rejectAll(new Error(event.message || "Worker failed"));
+        };
+    }
+
+    /**
+     * Sends a request to the worker
+     * @param type
+     * @param request - the arguments of the request
+     * @param onProgress - called with the progress from 0 to 100, for
+     * requests that report it
+     * @param transfer - buffers to hand over instead of copying
+     * @param signal - aborting it rejects the request right away, and the
+     * worker skips it if it hasn't started it yet
+     * @returns the result of the request
+     */
+    request<T extends WorkerRequestType>(
+        type: T,
+        request: WorkerRequests[T],
+        onProgress?: (progress: number) => void,
+        transfer: Transferable[] = [],
+        signal?: AbortSignal
+    ): Promise<WorkerResults[T]> {
+        if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+        const id = this.nextId++;
+        return new Promise<WorkerResults[T]>((resolve, reject) => {
+            const onAbort = () => {
+                this.pending.delete(id);
+                this.post({ id, type: "cancel" });
+                reject(abortReason(signal!));
+            };
+            const done = () => signal?.removeEventListener("abort", onAbort);
+            this.pending.set(id, {
+                resolve: (result) => {
+                    done();
+                    resolve(result);
+                },
+                reject: (error) => {
+                    done();
+                    reject(error);
+                },
+                onProgress,
+            });
+            signal?.addEventListener("abort", onAbort);
+            try {
+                this.post({ ...request, id, type } as WorkerRequest, transfer);
+            } catch (error) {
+                this.pending.get(id)!.reject(error);
+                this.pending.delete(id);
+            }
+        });
+    }
+
+    /**
+     * @returns the number of requests waiting for their response
+     */
+    inFlight() {
+        return this.pending.size;
+    }
+
+    /**
+     * Stops the worker, the requests in flight are rejected
+     */
+    terminate() {
+        this.worker.terminate();
+        this.rejectAll(new Error("Worker terminated"));
+    }
+
+    private post(message: WorkerMessage, transfer: Transferable[] = []) {
+        this.worker.postMessage(message, transfer);
+    }
+
+    private onResponse(response: WorkerResponse) {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+
+        switch (response.type) {
+            case "progress":
+                pending.onProgress?.(response.progress);
+                break;
+            case "result":
+                this.pending.delete(response.id);
+                pending.resolve(response.result);
+                break;
+            case "error":
+                this.pending.delete(response.id);
+                pending.reject(new Error(response.message));
+                break;
+        }
+    }
+
+    private rejectAll(error: Error) {
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        for (const { reject } of pending) reject(error);
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Listener of the events of type T of an emitter
+ */
+export type Listener<Events, T extends keyof Events> = (
+    event: Events[T]
+) => void;
+
+/**
+ * Small typed event emitter. Events maps each event type to the payload its
+ * listeners receive. A listener throwing is logged and doesn't keep the
+ * other listeners, or the change that emitted the event, from running.
+ */
+export class EventEmitter<Events extends Record<string, any>> {
+    private listeners = new Map<keyof Events, Set<(event: any) => void>>();
+    private anyListeners = new Set<
+        (type: keyof Events, event: Events[keyof Events]) => void
+    >();
+
+    /**
+     * @param type
+     * @param listener
+     * @returns a function removing the listener
+     */
+    on<T extends keyof Events>(type: T, listener: Listener<Events, T>) {
+        let listeners = this.listeners.get(type);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(type, listeners);
+        }
+        listeners.add(listener);
+        return () => this.off(type, listener);
+    }
+
+    off<T extends keyof Events>(type: T, listener: Listener<Events, T>) {
+        const listeners = this.listeners.get(type);
+        listeners?.delete(listener);
+        if (listeners?.size === 0) this.listeners.delete(type);
+    }
+
+    /**
+     * Listens to every event, e.g. to forward them to another emitter
+     * @param listener
+     * @returns a function removing the listener
+     */
+    onAny(listener: (type: keyof Events, event: Events[keyof Events]) => void) {
+        this.anyListeners.add(listener);
+        return () => {
+            this.anyListeners.delete(listener);
+        };
+    }
+
+    /**
+     * @returns whether emitting would call any listener, so callers can skip
+     * building events nobody listens to
+     */
+    hasListeners() {
+        return this.listeners.size > 0 || this.anyListeners.size > 0;
+    }
+
+    emit<T extends keyof Events>(type: T, event: Events[T]) {
+        // copies, so listeners can unsubscribe while the event is dispatched
+        for (const listener of [...(this.listeners.get(type) ?? [])]) {
+            this.call(type, () => listener(event));
+        }
+        for (const listener of [...this.anyListeners]) {
+            this.call(type, () => listener(type, event));
+        }
+    }
+
+    private call(type: keyof Events, listener: () => void) {
+        try {
+            listener();
+        } catch (error) {
+            console.error(`Error in ${String(type)} listener:`, error);
+        }
+    }
+}
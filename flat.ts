@@ -0,0 +1,43 @@
+import { HNSW } from "./hnsw";
+import type { Metric } from "./similarity";
+
+/**
+ * Exact index with no graph: searches compare the query to every
+ * non-deleted vector. Adding a vector is O(1) and results are always exact,
+ * which beats HNSW for small collections. It has the same surface as HNSW
+ * (it is an HNSW with indexType "flat"), and builds its graph once it grows
+ * past flatThreshold if one is set.
+ */
+export class FlatIndex extends HNSW {
+    /**
+     * @param d dimension of the vectors, set by the first vector if null
+     * @param metric
+     * @param flatThreshold number of nodes past which the graph is built,
+     * null to stay flat
+     * @param M used once the graph is built
+     * @param efConstruction used once the graph is built
+     */
+    constructor(
+        d: number | null = null,
+        metric: Metric = "cosine",
+        flatThreshold: number | null = null,
+        M = 16,
+        efConstruction = 200
+    ) {
+        super(M, efConstruction, d, metric);
+        this.indexType = "flat";
+        this.flatThreshold = flatThreshold;
+    }
+
+    static fromJSON(json: any): FlatIndex {
+        const index = new FlatIndex();
+        index.adopt(HNSW.fromJSON(json));
+        return index;
+    }
+
+    static fromBinary(buffer: ArrayBuffer): FlatIndex {
+        const index = new FlatIndex();
+        index.adopt(HNSW.fromBinary(buffer));
+        return index;
+    }
+}
@@ -1,15 +1,96 @@
-import { PriorityQueue } from "./pqueue";
-import { AstroNode } from "./astronode";
-import { cosineSimilarity, euclideanSimilarity } from "./similarity";
+import { PriorityQueue, Scored, TopK } from "./pqueue";
+import { AstroNode, AstroNodeWithScore } from "./astronode";
+import {
+    Metric,
+    SimilarityFunction,
+    getSimilarityFunction,
+} from "./similarity";
+import { SeededRandom } from "./random";
+import { EventEmitter, Listener } from "./events";
+import {
+    SyncChangeset,
+    SyncSummary,
+    SyncUpsert,
+    Tombstone,
+    remoteWins,
+} from "./sync";
+import { readSnapshot, writeSnapshot } from "./snapshot";
+import type { CollectionChanges } from "./storage/adapter";
+import {
+    ProductQuantizer,
+    Quantizer,
+    ScalarQuantizer,
+    parseQuantizer,
+} from "./quantization";
+
+// vector of the nodes whose vector is only kept as quantized codes
+const EMPTY_VECTOR = new Float32Array(0);
+// candidates fetched per result for MMR to pick diverse results from
+export const MMR_FETCH_FACTOR = 4;
+
+/**
+ * Predicate applied to nodes during search, only nodes passing it are returned
+ */
+export type NodeFilter = (node: AstroNode) => boolean;
+
+/**
+ * "hnsw" searches the graph, "flat" has no graph and scans every vector
+ * (exact, for small collections)
+ */
+export type IndexType = "hnsw" | "flat";
+
+/**
+ * How the neighbors of a node are picked among the candidates: "simple"
+ * keeps the most similar ones, "heuristic" (Algorithm 4 of the HNSW paper)
+ * skips candidates more similar to an already picked neighbor than to the
+ * node, so links point in diverse directions and clusters stay connected
+ */
+export type NeighborSelection = "simple" | "heuristic";
+
+/**
+ * One change of an applyBatch call
+ */
+export type BatchOperation =
+    | {
+          type: "add" | "update";
+          uniqueid: string;
+          vector: Float32Array | number[];
+          metadata?: Record<string, any>;
+          text?: string;
+      }
+    | { type: "remove"; uniqueid: string };
+
+/**
+ * Payload of each event type of an index, see HNSW.on
+ */
+export interface HNSWEvents {
+    // a node was added
+    add: { uniqueid: string };
+    // the vector, metadata or text of a node changed
+    update: { uniqueid: string };
+    // a node was removed (marked as deleted)
+    remove: { uniqueid: string };
+    // progress of vacuum from 0 to 100
+    vacuum: { progress: number };
+    // progress of a rebuild of the graph from 0 to 100
+    rebuild: { progress: number };
+    // the whole index was replaced, e.g. loaded from storage
+    load: { size: number };
+    // the index was written to storage, nodes being the number of nodes
+    // written (all of them when full)
+    save: { full: boolean; nodes: number };
+}
+
+export type HNSWEventType = keyof HNSWEvents;
 
-type Metric = "cosine" | "euclidean";
+/**
+ * Similarity of a node to the query of the current search or insertion
+ */
+type Scorer = (node: AstroNode) => number;
 
 export class HNSW {
     metric: Metric; // Metric to use
-    similarityFunction: (
-        a: number[] | Float32Array,
-        b: number[] | Float32Array
-    ) => number;
+    similarityFunction: SimilarityFunction;
     d: number | null = null; // Dimension of the vectors
     M: number; // Max number of neighbors
     // Max number of nodes to visit during construction and also ef for search
@@ -18,14 +99,74 @@ export class HNSW {
     entryPointId: string; // Id of the entry point
     nodes: Map<string, AstroNode>; // Map of nodes
     probs: number[]; // Probabilities for the levels
+    quantizer: Quantizer | null = null; // Set when vectors are stored as codes
+    indexType: IndexType = "hnsw";
+    // number of nodes past which a flat index builds its graph and becomes
+    // an HNSW index, null to stay flat
+    flatThreshold: number | null = null;
+    neighborSelection: NeighborSelection;
+    // heuristic only: the neighbors of the candidates are candidates too
+    extendCandidates = false;
+    // heuristic only: skipped candidates fill the slots left
+    keepPrunedConnections = false;
+    // seed of the level assignment, null when it isn't seeded
+    seed: number | null = null;
+    // generator of the level assignment, kept to save its state
+    private rng: SeededRandom | null = null;
+    // also trains the product quantizers, so a seeded index quantizes the
+    // same way every time
+    protected random: () => number = Math.random;
+    private decodeBuffer: Float32Array | null = null; // Reused to decode codes
+    // Codes decoded during a batch search, shared by its queries
+    private decodeCache: Map<string, Float32Array> | null = null;
+    // Precomputed similarity of the current query to codes, if supported
+    private queryTable: {
+        query: Float32Array | number[];
+        quantizer: Quantizer;
+        similarity: (codes: Int8Array | Uint8Array) => number;
+    } | null = null;
+    // Incremented on every change, tells whether a copy of the graph (e.g.
+    // in a worker) is still up to date
+    version = 0;
+    // Sequence number of the last change stamped on a node or tombstone,
+    // the cursor of getChangesSince
+    syncSequence = 0;
+    // Stamps of the removed nodes, kept after vacuum so removals are synced
+    tombstones = new Map<string, Tombstone>();
+    // Nodes as they were before the running applyBatch changed them (null
+    // for the ones it added), null outside of a batch
+    private batchBackup: Map<string, AstroNode | null> | null = null;
+    private events = new EventEmitter<HNSWEvents>();
+    // Events of the running applyBatch, emitted once it succeeds
+    private batchEvents: (() => void)[] | null = null;
+    // Number of withoutEvents calls running
+    private eventsMuted = 0;
 
+    /**
+     * @param M
+     * @param efConstruction
+     * @param d
+     * @param metric
+     * @param neighborSelection
+     * @param random a seed, so the same inputs always build the same graph
+     * and product quantizer, or a function returning numbers in [0, 1) like
+     * Math.random (the default). Only a seed is saved with the index.
+     */
     constructor(
         M = 16,
         efConstruction = 200,
         d: number | null = null,
-        metric = "cosine"
+        metric: Metric = "cosine",
+        neighborSelection: NeighborSelection = "heuristic",
+        random: number | (() => number) = Math.random
     ) {
-        this.metric = metric as Metric;
+        this.metric = metric;
+        this.neighborSelection = neighborSelection;
+        if (typeof random === "number") {
+            this.seedRandom(random);
+        } else {
+            this.random = random;
+        }
         this.d = d; // # of dimensions
         this.M = M;
         this.efConstruction = efConstruction;
@@ -33,19 +174,336 @@ export class HNSW {
         this.nodes = new Map<string, AstroNode>();
         this.probs = this.set_probs(M, 1 / Math.log(M));
         this.levelMax = this.probs.length - 1;
-        this.similarityFunction = this.getMetric(metric as Metric);
+        this.similarityFunction = getSimilarityFunction(metric);
     }
 
-    private getMetric(
-        metric: Metric
-    ): (a: number[] | Float32Array, b: number[] | Float32Array) => number {
-        if (metric === "cosine") {
-            return cosineSimilarity;
-        } else if (metric === "euclidean") {
-            return euclideanSimilarity;
-        } else {
-            throw new Error("Invalid metric");
+    /**
+     * Called whenever a node is added, removed or has its links, vector or
+     * metadata changed. Does nothing here, subclasses that persist the graph
+     * override it to keep track of what needs to be written
+     * @param uniqueid
+     */
+    protected onNodeChanged(uniqueid: string) {}
+
+    /**
+     * Reports a node change to onNodeChanged
+     * @param uniqueid
+     */
+    protected nodeChanged(uniqueid: string) {
+        this.version++;
+        this.onNodeChanged(uniqueid);
+    }
+
+    /**
+     * Called right before a node is changed, added or removed. When a batch
+     * is running, the node is copied the first time so the batch can be
+     * rolled back, without copying the whole graph up front. Vectors and
+     * metadata are shared since changes replace them rather than mutating
+     * them.
+     * @param uniqueid
+     */
+    private touch(uniqueid: string) {
+        if (!this.batchBackup || this.batchBackup.has(uniqueid)) return;
+        const node = this.nodes.get(uniqueid);
+        let copy: AstroNode | null = null;
+        if (node) {
+            copy = new AstroNode(
+                node.uniqueid,
+                node.vector,
+                node.level,
+                this.M,
+                node.neighbors.map((level) => [...level]),
+                node.deleted,
+                node.metadata,
+                node.text
+            );
+            copy.codes = node.codes;
+            copy.version = node.version;
+            copy.updatedAt = node.updatedAt;
+        }
+        this.batchBackup.set(uniqueid, copy);
+    }
+
+    /**
+     * Called when the whole graph is replaced at once (e.g. buildIndex)
+     */
+    protected onGraphReset() {}
+
+    /**
+     * Reports that the whole graph was replaced to onGraphReset
+     */
+    protected graphReset() {
+        this.version++;
+        this.onGraphReset();
+    }
+
+    /**
+     * Listens to the changes of the index, e.g. to refresh a view instead of
+     * polling it. Listeners run synchronously after the change, and changes
+     * of an applyBatch call are only emitted once the whole batch succeeded.
+     * @param type
+     * @param listener
+     * @returns a function removing the listener
+     */
+    on<T extends HNSWEventType>(type: T, listener: Listener<HNSWEvents, T>) {
+        return this.events.on(type, listener);
+    }
+
+    off<T extends HNSWEventType>(type: T, listener: Listener<HNSWEvents, T>) {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Listens to every event of the index
+     * @param listener
+     * @returns a function removing the listener
+     */
+    onAny(
+        listener: (
+            type: HNSWEventType,
+            event: HNSWEvents[HNSWEventType]
+        ) => void
+    ) {
+        return this.events.onAny(listener);
+    }
+
+    protected emit<T extends HNSWEventType>(type: T, event: HNSWEvents[T]) {
+        if (this.eventsMuted > 0 || !this.events.hasListeners()) return;
+        if (this.batchEvents) {
+            this.batchEvents.push(() => this.events.emit(type, event));
+            return;
+        }
+        this.events.emit(type, event);
+    }
+
+    /**
+     * Runs fn without emitting events, e.g. to rebuild the graph without an
+     * add event per node
+     * @param fn
+     * @returns what fn returns
+     */
+    protected withoutEvents<T>(fn: () => T): T {
+        this.eventsMuted++;
+        try {
+            return fn();
+        } finally {
+            this.eventsMuted--;
+        }
+    }
+
+    /**
+     * Called in quantized mode with the full precision vector of a node right
+     * before it is dropped from memory, so subclasses can keep it in storage
+     * for rescoring
+     * @param uniqueid
+     * @param vector
+     */
+    protected onFullVector(uniqueid: string, vector: Float32Array | number[]) {}
+
+    /**
+     * Similarity between a query vector and a node, using the quantized codes
+     * of the node in quantized mode
+     * @param query
+     * @param node
+     * @returns
+     */
+    protected similarityTo(query: Float32Array | number[], node: AstroNode) {
+        if (node.codes && this.quantizer) {
+            if (
+                this.queryTable?.query === query &&
+                this.queryTable.quantizer === this.quantizer
+            ) {
+                return this.queryTable.similarity(node.codes);
+            }
+            if (this.decodeCache) {
+                let vector = this.decodeCache.get(node.uniqueid);
+                if (!vector) {
+                    vector = this.quantizer.decode(node.codes);
+                    this.decodeCache.set(node.uniqueid, vector);
+                }
+                return this.similarityFunction(query, vector);
+            }
+            if (this.decodeBuffer?.length !== this.quantizer.dimension) {
+                this.decodeBuffer = new Float32Array(this.quantizer.dimension);
+            }
+            return this.similarityFunction(
+                query,
+                this.quantizer.decode(node.codes, this.decodeBuffer)
+            );
+        }
+        return this.similarityFunction(query, node.vector);
+    }
+
+    /**
+     * Precomputes the distance tables of the query when the quantizer supports
+     * it, so that comparing it to the codes of many nodes is cheap
+     * @param query
+     */
+    private prepareQuery(query: Float32Array | number[]) {
+        const quantizer = this.quantizer;
+        const similarity = quantizer?.similarityTable?.(query, this.metric);
+        this.queryTable =
+            quantizer && similarity ? { query, quantizer, similarity } : null;
+    }
+
+    /**
+     * Returns a function scoring nodes against the query that computes each
+     * node's similarity at most once, shared by all the layers of a search
+     * @param query
+     * @returns
+     */
+    private createScorer(query: Float32Array | number[]): Scorer {
+        this.prepareQuery(query);
+        const scores = new Map<string, number>();
+        return (node: AstroNode) => {
+            let score = scores.get(node.uniqueid);
+            if (score === undefined) {
+                score = this.similarityTo(query, node);
+                scores.set(node.uniqueid, score);
+            }
+            return score;
+        };
+    }
+
+    /**
+     * Vector of a node, decoded from its codes in quantized mode
+     * @param node
+     * @returns
+     */
+    protected vectorOf(node: AstroNode): Float32Array | number[] {
+        if (node.codes && this.quantizer) {
+            return this.quantizer.decode(node.codes);
+        }
+        return node.vector;
+    }
+
+    /**
+     * @param uniqueid
+     * @returns the vector of the node (approximated in quantized mode)
+     */
+    getVector(uniqueid: string) {
+        const node = this.nodes.get(uniqueid);
+        return node ? this.vectorOf(node) : undefined;
+    }
+
+    /**
+     * Whether the node's vector is the same as the given one. In quantized
+     * mode, vectors with the same codes are considered the same.
+     * @param uniqueid
+     * @param vector
+     * @returns
+     */
+    hasSameVector(uniqueid: string, vector: Float32Array | number[]) {
+        const node = this.nodes.get(uniqueid);
+        if (!node) return false;
+        if (node.codes && this.quantizer) {
+            if (vector.length !== this.quantizer.dimension) return false;
+            const codes = this.quantizer.encode(vector);
+            return codes.every((code, i) => code === node.codes![i]);
+        }
+        return (
+            node.vector.length === vector.length &&
+            node.vector.every((value, i) => value === vector[i])
+        );
+    }
+
+    /**
+     * Switches the index to int8 scalar quantization: trains the quantizer on
+     * the current vectors, encodes every node and drops the float vectors
+     * from memory (about 4x smaller). Points added afterwards are encoded
+     * with the same quantizer. Search results are scored on the codes, see
+     * AstroVault.searchKNNRescored to rescore them with the full vectors.
+     * @param sampleSize max number of vectors to train on
+     */
+    quantize(sampleSize = 10000) {
+        this.applyQuantizer(
+            ScalarQuantizer.train(this.sampleFullVectors(sampleSize))
+        );
+    }
+
+    /**
+     * Switches the index to product quantization, see quantize. Each vector
+     * is stored in `subspaces` bytes and the search uses asymmetric distance
+     * tables instead of decoding the codes.
+     * @param subspaces must divide the dimension of the vectors
+     * @param centroidCount centroids per sub-space, at most 256
+     * @param sampleSize max number of vectors to run k-means on
+     */
+    quantizeProduct(subspaces = 8, centroidCount = 256, sampleSize = 10000) {
+        this.applyQuantizer(
+            ProductQuantizer.train(
+                this.sampleFullVectors(sampleSize),
+                subspaces,
+                centroidCount,
+                undefined,
+                this.random
+            )
+        );
+    }
+
+    private sampleFullVectors(sampleSize: number) {
+        if (this.quantizer) {
+            throw new Error("Index is already quantized");
+        }
+        const vectors = Array.from(this.nodes.values())
+            .filter((node) => node.vector.length > 0)
+            .map((node) => node.vector);
+        if (vectors.length === 0) {
+            throw new Error("Cannot quantize an empty index");
         }
+        const step = Math.max(1, Math.floor(vectors.length / sampleSize));
+        return vectors.filter((_, i) => i % step === 0);
+    }
+
+    /**
+     * Encodes every node with the quantizer and drops their float vectors
+     * @param quantizer
+     */
+    private applyQuantizer(quantizer: Quantizer) {
+        for (const node of this.nodes.values()) {
+            if (node.vector.length === 0) continue;
+
+            node.codes = quantizer.encode(node.vector);
+            this.onFullVector(node.uniqueid, node.vector);
+            node.vector = EMPTY_VECTOR;
+            this.nodeChanged(node.uniqueid);
+        }
+        this.quantizer = quantizer;
+    }
+
+    /**
+     * Stamps a change of the vector, metadata or text of a node for sync.
+     * Link changes are not stamped, each copy maintains its own links.
+     * @param node
+     * @param updatedAt time of the change, now unless it is imported
+     */
+    private stamp(node: AstroNode, updatedAt = Date.now()) {
+        node.version = ++this.syncSequence;
+        node.updatedAt = updatedAt;
+        this.tombstones.delete(node.uniqueid);
+    }
+
+    /**
+     * Seeds the level assignment
+     * @param seed
+     * @param state state of the generator to resume from, e.g. saved with
+     * the index, it starts from the seed if not given
+     */
+    private seedRandom(seed: number, state?: number) {
+        this.seed = seed;
+        this.rng = new SeededRandom(seed);
+        if (state !== undefined) this.rng.state = state;
+        this.random = this.rng.next;
+    }
+
+    /**
+     * @returns the seed and current state of the level assignment, or
+     * undefined when it isn't seeded
+     */
+    randomState() {
+        return this.rng && this.seed !== null
+            ? { seed: this.seed, state: this.rng.state }
+            : undefined;
     }
 
     private set_probs(M: number, levelMult: number): number[] {
@@ -66,59 +524,72 @@ export class HNSW {
      * @returns a random level based on the probabilities set
      */
     private selectLevel(): number {
-        let r = Math.random();
-        this.probs.forEach((p, i) => {
-            if (r < p) {
-                return i;
-            }
-            r -= p;
-        });
+        let r = this.random();
+        for (let level = 0; level < this.probs.length; level++) {
+            if (r < this.probs[level]) return level;
+            r -= this.probs[level];
+        }
         return this.probs.length - 1;
     }
 
     /**
      * New add node to graph based on the paper
+     * @param node
+     * @param nodeInsertionLevel
+     * @param vector full precision vector of the node
+     * @param relink the node is already linked in the graph (its vector was
+     * updated): its links at each level are replaced by the new ones
      */
     private addNodeToGraphOptimized(
         node: AstroNode,
-        nodeInsertionLevel: number
+        nodeInsertionLevel: number,
+        vector: Float32Array | number[],
+        relink = false
     ) {
         if (this.entryPointId === "") {
             this.entryPointId = node.uniqueid;
+            this.levelMax = nodeInsertionLevel;
             return;
         }
-        let foundNearestElements = new PriorityQueue<AstroNode>(
-            (a, b) =>
-                this.similarityFunction(node.vector, b.vector) -
-                this.similarityFunction(node.vector, a.vector)
-        );
+        const score = this.createScorer(vector);
         let entryPoints: AstroNode[] = [];
         const entryPointNode = this.nodes.get(this.entryPointId);
         if (entryPointNode) entryPoints.push(entryPointNode);
 
         for (let i = this.levelMax; i >= nodeInsertionLevel + 1; i--) {
-            foundNearestElements = this.searchLayer(
-                node.vector,
+            const closestFoundElements = this.searchLayer(
+                score,
                 entryPoints,
                 1,
                 i
             );
-            const closestFoundElement = foundNearestElements.popFirst();
-            if (closestFoundElement) {
-                entryPoints = [closestFoundElement];
+            if (closestFoundElements.length > 0) {
+                entryPoints = [closestFoundElements[0].item];
             }
         }
 
         for (let i = Math.min(this.levelMax, nodeInsertionLevel); i >= 0; i--) {
-            foundNearestElements = this.searchLayer(
-                node.vector,
+            const foundNearestElements = this.searchLayer(
+                score,
                 entryPoints,
                 this.efConstruction,
                 i
             );
 
-            const closestNeighborsAtLevel: AstroNode[] =
-                this.selectNeighbors(foundNearestElements);
+            // the search can reach a node being relinked or reinserted (some
+            // links to it are left), it must not link to itself
+            const candidates = foundNearestElements.filter(
+                ({ item }) => item !== node
+            );
+            const closestNeighborsAtLevel = this.chooseNeighbors(
+                node.uniqueid,
+                candidates,
+                i,
+                score
+            );
+            // only cleared now, the searches of the lower levels may still
+            // go through the old links
+            if (relink) node.neighbors[i] = [];
 
             for (let j = 0; j < closestNeighborsAtLevel.length; j++) {
                 const neighborNode = this.nodes.get(
@@ -136,12 +607,12 @@ export class HNSW {
                 this.shrinkConnectionsIfNeeded(neighborNode, i);
             }
 
-            entryPoints = foundNearestElements.toArray();
+            entryPoints = foundNearestElements.map(({ item }) => item);
         }
 
+        // the node is the first on its level, searches start from it
         if (nodeInsertionLevel > this.levelMax) {
             this.levelMax = nodeInsertionLevel;
-            console.log("LEVEL MAX INCREMENTED");
             this.entryPointId = node.uniqueid;
         }
     }
@@ -150,8 +621,15 @@ export class HNSW {
      * Add a point to the nodes and add to the graph
      * @param uniqueid
      * @param vector
+     * @param metadata optional JSON payload stored alongside the vector
+     * @param text optional text, searchable by keywords in AstroVault
      */
-    addPoint(uniqueid: string, vector: Float32Array | number[]) {
+    addPoint(
+        uniqueid: string,
+        vector: Float32Array | number[],
+        metadata?: Record<string, any>,
+        text?: string
+    ) {
         if (!vector || vector.length == 0) return;
 
         if (this.d !== null && vector.length !== this.d) {
@@ -159,44 +637,285 @@ export class HNSW {
         }
         this.d = vector.length;
 
-        const nodeInsertionLevel = this.selectLevel();
+        // nodes of a flat index are not linked, they all stay on level 0
+        const nodeInsertionLevel =
+            this.indexType === "flat" ? 0 : this.selectLevel();
 
+        this.touch(uniqueid);
         this.nodes.set(
             uniqueid,
-            new AstroNode(uniqueid, vector, nodeInsertionLevel, this.M)
+            new AstroNode(
+                uniqueid,
+                this.quantizer ? EMPTY_VECTOR : vector,
+                nodeInsertionLevel,
+                this.M,
+                undefined,
+                false,
+                metadata,
+                text
+            )
         );
         const node = this.nodes.get(uniqueid)!;
+        if (this.quantizer) {
+            node.codes = this.quantizer.encode(vector);
+            this.onFullVector(uniqueid, vector);
+        }
+        this.stamp(node);
+        this.nodeChanged(uniqueid);
+
+        if (this.indexType === "hnsw") {
+            this.addNodeToGraphOptimized(node, nodeInsertionLevel, vector);
+        } else if (
+            this.flatThreshold !== null &&
+            this.nodes.size > this.flatThreshold
+        ) {
+            this.buildGraph();
+        }
+        this.emit("add", { uniqueid });
+    }
+
+    /**
+     * Turns a flat index into an HNSW index by linking its nodes into the
+     * graph. Deleted nodes are dropped rather than linked. Called by addPoint
+     * once the index grows past flatThreshold.
+     */
+    buildGraph() {
+        if (this.indexType === "hnsw") return;
+
+        for (const uniqueid of this.nodes.keys()) this.touch(uniqueid);
+        const nodes = Array.from(this.nodes.values()).filter(
+            (node) => !node.deleted
+        );
+        this.indexType = "hnsw";
+        this.nodes.clear();
+        this.levelMax = 0;
+        this.entryPointId = "";
+        // nodes are linked as they are, so quantized ones keep their codes
+        for (const node of nodes) {
+            node.level = this.selectLevel();
+            node.neighbors = [];
+            this.nodes.set(node.uniqueid, node);
+            this.addNodeToGraphOptimized(node, node.level, this.vectorOf(node));
+        }
+        this.graphReset();
+        this.emit("rebuild", { progress: 100 });
+    }
 
-        this.levelMax = Math.max(this.levelMax, node.level);
+    /**
+     * Replaces the metadata of a node without touching its vector or links
+     * @param uniqueid
+     * @param metadata
+     * @returns true if the node exists
+     */
+    setMetadata(uniqueid: string, metadata?: Record<string, any>) {
+        const node = this.nodes.get(uniqueid);
+        if (!node) return false;
+        this.touch(uniqueid);
+        node.metadata = metadata;
+        this.stamp(node);
+        this.nodeChanged(uniqueid);
+        this.emit("update", { uniqueid });
+        return true;
+    }
 
-        this.addNodeToGraphOptimized(node, nodeInsertionLevel);
+    /**
+     * Replaces the text of a node without touching its vector or links
+     * @param uniqueid
+     * @param text
+     * @returns true if the node exists
+     */
+    setText(uniqueid: string, text?: string) {
+        const node = this.nodes.get(uniqueid);
+        if (!node) return false;
+        this.touch(uniqueid);
+        node.text = text;
+        this.stamp(node);
+        this.nodeChanged(uniqueid);
+        this.emit("update", { uniqueid });
+        return true;
     }
 
     /**
-     * Opposite of addNodeToGraph, removes a node from the graph
+     * Opposite of addNodeToGraph, removes a node from the graph.
+     * Every node linking to it at a level gets the link replaced with the
+     * best candidates among the removed node's own neighbors at that level,
+     * walking through other deleted nodes to reach live ones
      * @param node
+     * @param incomingConnections ids of the nodes linking to node, per level
      */
-    private async removeNodeFromGraph(node: AstroNode) {
-        // Iterate over each level of the node's neighbors
-        for (let level = 0; level <= node.level; level++) {
-            // For each neighbor in that level, replace the node's uniqueid with ''
-            for (const neighborId of node.neighbors[level]) {
-                if (neighborId !== "") {
-                    const neighborNode = this.nodes.get(neighborId);
-                    if (neighborNode) {
-                        // Replace the node's uniqueid with '' in each of its neighbor's lists
-                        neighborNode.neighbors[level] = neighborNode.neighbors[
-                            level
-                        ].map((uniqueid) =>
-                            uniqueid === node.uniqueid ? "" : uniqueid
-                        );
+    private removeNodeFromGraph(
+        node: AstroNode,
+        incomingConnections: Map<number, Set<string>>
+    ) {
+        for (const [level, incomingNodeIds] of incomingConnections) {
+            const replacements = this.collectLiveNeighbors(node, level);
+
+            for (const incomingNodeId of incomingNodeIds) {
+                const incomingNode = this.nodes.get(incomingNodeId);
+                if (!incomingNode || incomingNode.deleted) continue;
+
+                this.touch(incomingNodeId);
+                incomingNode.neighbors[level] = incomingNode.neighbors[
+                    level
+                ].filter((id) => id !== node.uniqueid);
+                this.nodeChanged(incomingNodeId);
+
+                const incomingVector = this.vectorOf(incomingNode);
+                const candidates: Scored<AstroNode>[] = [];
+                for (const candidate of replacements) {
+                    if (
+                        candidate.uniqueid !== incomingNodeId &&
+                        !incomingNode.neighbors[level].includes(
+                            candidate.uniqueid
+                        )
+                    ) {
+                        candidates.push({
+                            item: candidate,
+                            score: this.similarityTo(incomingVector, candidate),
+                        });
                     }
                 }
+                candidates.sort((a, b) => b.score - a.score);
+
+                const freeSlots = this.M - incomingNode.neighbors[level].length;
+                if (freeSlots <= 0) continue;
+
+                for (const candidate of this.selectNeighbors(
+                    candidates,
+                    freeSlots
+                )) {
+                    this.addBidirectionalConnections(
+                        incomingNode,
+                        candidate,
+                        level
+                    );
+                    this.shrinkConnectionsIfNeeded(candidate, level);
+                }
             }
         }
 
         // Finally, remove the node from the graph
+        this.touch(node.uniqueid);
         this.nodes.delete(node.uniqueid);
+        this.nodeChanged(node.uniqueid);
+    }
+
+    /**
+     * Non-deleted neighbors of a node at a level, going through deleted
+     * neighbors so that chains of deleted nodes don't cut the graph
+     * @param node
+     * @param level
+     * @returns
+     */
+    private collectLiveNeighbors(node: AstroNode, level: number) {
+        const live: AstroNode[] = [];
+        const visited = new Set<string>([node.uniqueid]);
+        const toVisit = [node];
+
+        while (toVisit.length > 0) {
+            const current = toVisit.pop()!;
+            for (const neighborId of current.neighbors[level] ?? []) {
+                if (!neighborId || visited.has(neighborId)) continue;
+                visited.add(neighborId);
+
+                const neighbor = this.nodes.get(neighborId);
+                if (!neighbor) continue;
+                if (neighbor.deleted) {
+                    toVisit.push(neighbor);
+                } else {
+                    live.push(neighbor);
+                }
+            }
+        }
+        return live;
+    }
+
+    /**
+     * Physically removes the nodes marked as deleted, repairing the links of
+     * their former neighbors at each level and re-electing the entry point
+     * if it was removed. Yields to the event loop between batches of nodes
+     * so it doesn't block the main thread.
+     * @param progressCallback called with the progress from 0 to 100
+     * @returns the number of nodes removed
+     */
+    async vacuum(progressCallback?: (progress: number) => void) {
+        const report = (progress: number) => {
+            if (progressCallback) progressCallback(progress);
+            this.emit("vacuum", { progress });
+        };
+        const deletedNodes = Array.from(this.nodes.values()).filter(
+            (node) => node.deleted
+        );
+        if (deletedNodes.length === 0) {
+            report(100);
+            return 0;
+        }
+
+        // Find who links to each deleted node in a single pass over the graph
+        const deletedIds = new Set(deletedNodes.map((node) => node.uniqueid));
+        // searches run while it yields, so the entry point must stay valid:
+        // a node that is kept takes over before any removal, or when none
+        // is kept the entry point is removed last
+        if (deletedIds.has(this.entryPointId)) {
+            if (deletedIds.size < this.nodes.size) {
+                this.electEntryPoint(deletedIds);
+            } else {
+                const index = deletedNodes.findIndex(
+                    (node) => node.uniqueid === this.entryPointId
+                );
+                deletedNodes.push(...deletedNodes.splice(index, 1));
+            }
+        }
+        const incomingConnections = new Map<string, Map<number, Set<string>>>();
+        for (const node of this.nodes.values()) {
+            node.neighbors.forEach((neighborIds, level) => {
+                for (const neighborId of neighborIds) {
+                    if (!deletedIds.has(neighborId)) continue;
+                    if (!incomingConnections.has(neighborId)) {
+                        incomingConnections.set(neighborId, new Map());
+                    }
+                    const byLevel = incomingConnections.get(neighborId)!;
+                    if (!byLevel.has(level)) byLevel.set(level, new Set());
+                    byLevel.get(level)!.add(node.uniqueid);
+                }
+            });
+        }
+
+        for (let i = 0; i < deletedNodes.length; i++) {
+            this.removeNodeFromGraph(
+                deletedNodes[i],
+                incomingConnections.get(deletedNodes[i].uniqueid) ?? new Map()
+            );
+
+            // no yield after the last one, the entry point may be gone
+            if ((i + 1) % 100 === 0 && i + 1 < deletedNodes.length) {
+                report(((i + 1) / deletedNodes.length) * 100);
+                await new Promise((resolve) => setTimeout(resolve, 0));
+            }
+        }
+
+        if (!this.nodes.has(this.entryPointId)) {
+            this.electEntryPoint();
+        }
+
+        report(100);
+        return deletedNodes.length;
+    }
+
+    /**
+     * Sets the entry point to the node on the highest level
+     * @param exclude nodes that can't be elected, e.g. about to be removed
+     */
+    private electEntryPoint(exclude?: Set<string>) {
+        let entryPoint: AstroNode | null = null;
+        for (const node of this.nodes.values()) {
+            if (exclude?.has(node.uniqueid)) continue;
+            if (!entryPoint || node.level > entryPoint.level) {
+                entryPoint = node;
+            }
+        }
+        this.entryPointId = entryPoint ? entryPoint.uniqueid : "";
+        this.levelMax = entryPoint ? entryPoint.level : 0;
     }
 
     /**
@@ -215,9 +934,19 @@ export class HNSW {
             return;
         }
 
+        this.touch(uniqueid);
+        // removing a removed node again keeps the time it was removed
+        if (!node.deleted || !this.tombstones.has(uniqueid)) {
+            this.tombstones.set(uniqueid, {
+                version: ++this.syncSequence,
+                updatedAt: Date.now(),
+            });
+        }
         node.deleted = true;
 
         this.nodes.set(uniqueid, node);
+        this.nodeChanged(uniqueid);
+        this.emit("remove", { uniqueid });
 
         // Optionally, update the entry point if it was the node being removed
         // if (this.entryPointId === uniqueid) {
@@ -236,6 +965,11 @@ export class HNSW {
      * @param similarityStrength
      * @param ef
      * @param beam_size
+     * @param filter only nodes passing the filter are returned, it is applied
+     * while traversing the bottom layer so non-matching nodes are still used
+     * as paths to reach matching ones
+     * @param exact scan every node instead of searching the graph, always
+     * the case for a flat index
      * @returns
      */
     searchKNNOptimized(
@@ -243,159 +977,508 @@ export class HNSW {
         K: number,
         similarityStrength: number = 0.5,
         ef: number = this.efConstruction,
-        beam_size: number = 10
+        beam_size: number = 10,
+        filter?: NodeFilter,
+        exact: boolean = false
     ) {
+        if (exact || this.indexType === "flat") {
+            return this.searchExact(query, K, similarityStrength, filter);
+        }
         if (!this.entryPointId) {
             return [];
         }
 
-        const best_candidates = new PriorityQueue<AstroNode>(
-            (a, b) =>
-                this.similarityFunction(query, b.vector) -
-                this.similarityFunction(query, a.vector)
-        );
+        const matches = filter
+            ? (node: AstroNode) => !node.deleted && filter(node)
+            : undefined;
+        const score = this.createScorer(query);
+
+        const best_candidates = new Map<string, Scored<AstroNode>>();
 
         let beam = [this.nodes.get(this.entryPointId)!];
 
         for (let level = this.levelMax; level >= 0; level--) {
             const layer_results = this.searchLayer(
-                query,
+                score,
                 beam,
                 Math.min(ef, beam_size),
                 level
             );
-            this.updateBestCandidates(
-                query,
-                best_candidates,
-                layer_results.toArray(),
-                Math.max(K, ef)
-            );
+            this.updateBestCandidates(best_candidates, layer_results, matches);
 
-            beam = this.getTopBeam(layer_results.toArray(), beam_size);
+            beam = this.getTopBeam(layer_results, beam_size);
         }
 
-        const bottom_layer_results = this.searchLayer(query, beam, ef, 0);
+        const bottom_layer_results = this.searchLayer(
+            score,
+            beam,
+            matches ? Math.max(K, ef) : ef,
+            0,
+            matches
+        );
 
         this.updateBestCandidates(
-            query,
             best_candidates,
-            bottom_layer_results.toArray(),
-            Math.max(K, ef)
+            bottom_layer_results,
+            matches
         );
 
-        let scoredCandidates = best_candidates
-            .toArray()
-            .map((node) => {
-                const score = this.similarityFunction(query, node.vector);
-                return { ...node, score };
-            })
-            .filter((node) => node.score > similarityStrength && !node.deleted);
-
-        if (scoredCandidates.length > K) {
-            scoredCandidates = scoredCandidates.slice(0, K);
-        }
-
-        return scoredCandidates;
+        return Array.from(best_candidates.values())
+            .sort((a, b) => b.score - a.score)
+            .filter(
+                ({ item, score }) => score > similarityStrength && !item.deleted
+            )
+            .slice(0, K)
+            .map(({ item, score }) => ({ ...item, score }));
     }
 
-    private searchLayer(
+    /**
+     * Exact K nearest neighbors, scanning every non-deleted node
+     * @param query
+     * @param K
+     * @param similarityStrength
+     * @param filter
+     * @returns
+     */
+    private searchExact(
         query: Float32Array | number[],
-        entryPoints: AstroNode[],
-        ef: number,
-        level: number
+        K: number,
+        similarityStrength: number,
+        filter?: NodeFilter
     ) {
-        const visited = new Set<string>();
-        const candidates = new PriorityQueue<AstroNode>(
-            (a, b) =>
-                this.similarityFunction(query, b.vector) -
-                this.similarityFunction(query, a.vector)
-        );
-        const foundNearestNeighbors = new PriorityQueue<AstroNode>(
-            (a, b) =>
-                this.similarityFunction(query, b.vector) -
-                this.similarityFunction(query, a.vector)
-        );
-
+        this.prepareQuery(query);
+        const top = new TopK<AstroNode>(K);
+        for (const node of this.nodes.values()) {
+            if (node.deleted || (filter && !filter(node))) continue;
+            const score = this.similarityTo(query, node);
+            if (score > similarityStrength) top.push(node, score);
+        }
+        return top.toArray().map(({ item, score }) => ({ ...item, score }));
+    }
+
+    /**
+     * searchKNNOptimized for many queries at once, e.g. one per paragraph of
+     * a document. The work that doesn't depend on the query is shared: the
+     * filter is evaluated once per node, and in quantized mode without
+     * precomputed query tables (int8) each node's codes are decoded once for
+     * the whole batch rather than once per query.
+     * @param queries
+     * @param K
+     * @param similarityStrength
+     * @param ef
+     * @param beam_size
+     * @param filter
+     * @param exact
+     * @returns the results of each query, in order
+     */
+    searchKNNBatch(
+        queries: (Float32Array | number[])[],
+        K: number,
+        similarityStrength: number = 0.5,
+        ef: number = this.efConstruction,
+        beam_size: number = 10,
+        filter?: NodeFilter,
+        exact: boolean = false
+    ) {
+        let matches = filter;
+        if (filter) {
+            const passes = new Map<string, boolean>();
+            matches = (node: AstroNode) => {
+                let pass = passes.get(node.uniqueid);
+                if (pass === undefined) {
+                    pass = filter(node);
+                    passes.set(node.uniqueid, pass);
+                }
+                return pass;
+            };
+        }
+
+        // only used for the codes compared without a query table
+        if (queries.length > 1 && this.quantizer) {
+            this.decodeCache = new Map<string, Float32Array>();
+        }
+        try {
+            return queries.map((query) =>
+                this.searchKNNOptimized(
+                    query,
+                    K,
+                    similarityStrength,
+                    ef,
+                    beam_size,
+                    matches,
+                    exact
+                )
+            );
+        } finally {
+            this.decodeCache = null;
+        }
+    }
+
+    /**
+     * Maximal Marginal Relevance search: over-fetches candidates and picks
+     * results that are relevant to the query but not similar to each other,
+     * e.g. to avoid feeding near-identical chunks to a prompt
+     * @param query
+     * @param K
+     * @param lambda 1 ranks by relevance only, 0 by diversity only
+     * @param similarityStrength
+     * @param fetchK number of candidates to pick the K results from
+     * @param ef
+     * @param beam_size
+     * @param filter
+     * @returns the K results in the order they were picked, with their
+     * similarity to the query as score
+     */
+    searchMMR(
+        query: Float32Array | number[],
+        K: number,
+        lambda: number = 0.5,
+        similarityStrength: number = 0.5,
+        fetchK: number = K * MMR_FETCH_FACTOR,
+        ef: number = this.efConstruction,
+        beam_size: number = 10,
+        filter?: NodeFilter
+    ) {
+        return this.selectMMR(
+            this.searchKNNOptimized(
+                query,
+                Math.max(K, fetchK),
+                similarityStrength,
+                Math.max(ef, fetchK),
+                beam_size,
+                filter
+            ),
+            K,
+            lambda
+        );
+    }
+
+    /**
+     * Greedily picks K of the candidates, each time the one maximizing
+     * lambda * its score - (1 - lambda) * its highest similarity to the ones
+     * already picked. Similarities between candidates are computed on their
+     * vectors (decoded from the codes in quantized mode).
+     * @param candidates search results with their similarity to the query
+     * @param K
+     * @param lambda 1 ranks by relevance only, 0 by diversity only
+     * @returns the picked candidates, in the order they were picked
+     */
+    selectMMR<T extends { uniqueid: string; score: number }>(
+        candidates: T[],
+        K: number,
+        lambda: number = 0.5
+    ): T[] {
+        if (lambda < 0 || lambda > 1) {
+            throw new Error("lambda must be between 0 and 1");
+        }
+
+        const remaining = candidates.filter(({ uniqueid }) =>
+            this.nodes.has(uniqueid)
+        );
+        const vectors = new Map(
+            remaining.map(({ uniqueid }) => [
+                uniqueid,
+                this.vectorOf(this.nodes.get(uniqueid)!),
+            ])
+        );
+        // highest similarity of each candidate to the picked ones
+        const redundancy = new Map<string, number>();
+
+        const selected: T[] = [];
+        while (selected.length < K && remaining.length > 0) {
+            let best = 0;
+            let bestScore = -Infinity;
+            for (let i = 0; i < remaining.length; i++) {
+                const { uniqueid, score } = remaining[i];
+                const mmrScore =
+                    lambda * score -
+                    (1 - lambda) * (redundancy.get(uniqueid) ?? 0);
+                if (mmrScore > bestScore) {
+                    bestScore = mmrScore;
+                    best = i;
+                }
+            }
+
+            const [picked] = remaining.splice(best, 1);
+            selected.push(picked);
+            const pickedVector = vectors.get(picked.uniqueid)!;
+            for (const { uniqueid } of remaining) {
+                const similarity = this.similarityFunction(
+                    vectors.get(uniqueid)!,
+                    pickedVector
+                );
+                redundancy.set(
+                    uniqueid,
+                    Math.max(redundancy.get(uniqueid) ?? -Infinity, similarity)
+                );
+            }
+        }
+        return selected;
+    }
+
+    /**
+     * Every node more similar to the query than the threshold, without
+     * guessing a K. The upper layers are descended as in searchKNNOptimized,
+     * then the bottom layer is searched with ef doubling until its ef nearest
+     * nodes include some below the threshold, and the graph is explored from
+     * there through every node above the threshold until none is left to
+     * reach.
+     * @param query
+     * @param threshold
+     * @param maxResults safety limit, the search stops once that many nodes
+     * are found (the most similar ones are found first)
+     * @param ef
+     * @param beam_size
+     * @param filter only nodes passing the filter are returned, the others
+     * are still explored
+     * @returns the nodes above the threshold, most similar first
+     */
+    searchRange(
+        query: Float32Array | number[],
+        threshold: number,
+        maxResults: number = Infinity,
+        ef: number = this.efConstruction,
+        beam_size: number = 10,
+        filter?: NodeFilter
+    ): AstroNodeWithScore[] {
+        const results =
+            this.indexType === "flat"
+                ? this.scanRange(query, threshold, filter)
+                : this.searchGraphRange(
+                      query,
+                      threshold,
+                      maxResults,
+                      ef,
+                      beam_size,
+                      filter
+                  );
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, maxResults)
+            .map(
+                ({ item, score }) =>
+                    new AstroNodeWithScore(
+                        item.uniqueid,
+                        item.vector,
+                        item.level,
+                        this.M,
+                        item.neighbors,
+                        item.deleted,
+                        score,
+                        item.metadata,
+                        item.text
+                    )
+            );
+    }
+
+    /**
+     * Every non-deleted node above the threshold, by scanning them all
+     * @param query
+     * @param threshold
+     * @param filter
+     * @returns
+     */
+    private scanRange(
+        query: Float32Array | number[],
+        threshold: number,
+        filter?: NodeFilter
+    ) {
+        this.prepareQuery(query);
+        const results: Scored<AstroNode>[] = [];
+        for (const node of this.nodes.values()) {
+            if (node.deleted || (filter && !filter(node))) continue;
+            const score = this.similarityTo(query, node);
+            if (score > threshold) results.push({ item: node, score });
+        }
+        return results;
+    }
+
+    /**
+     * Graph exploration of searchRange
+     * @param query
+     * @param threshold
+     * @param maxResults
+     * @param ef
+     * @param beam_size
+     * @param filter
+     * @returns the nodes found, unsorted
+     */
+    private searchGraphRange(
+        query: Float32Array | number[],
+        threshold: number,
+        maxResults: number,
+        ef: number,
+        beam_size: number,
+        filter?: NodeFilter
+    ) {
+        const results: Scored<AstroNode>[] = [];
+        if (!this.entryPointId || maxResults <= 0) {
+            return results;
+        }
+
+        const score = this.createScorer(query);
+
+        let beam = [this.nodes.get(this.entryPointId)!];
+        for (let level = this.levelMax; level > 0; level--) {
+            beam = this.getTopBeam(
+                this.searchLayer(score, beam, Math.min(ef, beam_size), level),
+                beam_size
+            );
+        }
+        let seeds = this.searchLayer(score, beam, ef, 0);
+        // while all of the ef nearest are above the threshold, more may be
+        // reachable only through nodes below it
+        while (
+            seeds.length >= ef &&
+            seeds[seeds.length - 1].score > threshold &&
+            seeds.length < maxResults
+        ) {
+            ef *= 2;
+            seeds = this.searchLayer(score, beam, ef, 0);
+        }
+
+        const visited = new Set<string>();
+        // most similar first, so a maxResults cut keeps the best ones
+        const candidates = new PriorityQueue<Scored<AstroNode>>(
+            (a, b) => b.score - a.score
+        );
+        for (const seed of seeds) {
+            visited.add(seed.item.uniqueid);
+            if (seed.score > threshold) candidates.push(seed);
+        }
+
+        while (!candidates.isEmpty() && results.length < maxResults) {
+            const current = candidates.popFirst()!;
+            const node = current.item;
+            if (!node.deleted && (!filter || filter(node))) {
+                results.push(current);
+            }
+
+            // the links of every level are followed, and deleted nodes are
+            // still paths to the others
+            for (const neighborId of node.neighbors.flat()) {
+                if (!neighborId || visited.has(neighborId)) continue;
+                visited.add(neighborId);
+
+                const neighbor = this.nodes.get(neighborId);
+                if (!neighbor) continue;
+                const neighborSimilarity = score(neighbor);
+                if (neighborSimilarity > threshold) {
+                    candidates.push({
+                        item: neighbor,
+                        score: neighborSimilarity,
+                    });
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Greedy search of a single layer. When a filter is given, every node is
+     * still explored as a path but only the ones passing the filter are kept
+     * in the results, so the search continues until ef matches are found or
+     * nothing closer is reachable
+     * @param query
+     * @param entryPoints
+     * @param ef
+     * @param level
+     * @param filter
+     * @returns
+     */
+    private searchLayer(
+        score: Scorer,
+        entryPoints: AstroNode[],
+        ef: number,
+        level: number,
+        filter?: NodeFilter
+    ): Scored<AstroNode>[] {
+        const visited = new Set<string>();
+        // nearest candidate on top
+        const candidates = new PriorityQueue<Scored<AstroNode>>(
+            (a, b) => b.score - a.score
+        );
+        // ef nearest found so far, the furthest one is dropped when full
+        const foundNearestNeighbors = new TopK<AstroNode>(Math.max(1, ef));
+
         for (const ep of entryPoints) {
             if (!visited.has(ep.uniqueid)) {
                 visited.add(ep.uniqueid);
-                candidates.push(ep);
-                foundNearestNeighbors.push(ep);
+                const epSimilarity = score(ep);
+                candidates.push({ item: ep, score: epSimilarity });
+                if (!filter || filter(ep)) {
+                    foundNearestNeighbors.push(ep, epSimilarity);
+                }
             }
         }
 
         while (!candidates.isEmpty()) {
             // get nearest element from C to q
             const current = candidates.popFirst()!;
-            // get furthest element from results to q
-            let furthest = foundNearestNeighbors.getLast()!;
 
             // if similarity is less than furthest, break
             // no point going on, since this will keep getting
+            // (with a filter, keep going until ef matches are found)
             if (
-                this.similarityFunction(query, current.vector) <
-                this.similarityFunction(query, furthest.vector)
+                !foundNearestNeighbors.isEmpty() &&
+                (!filter || foundNearestNeighbors.isFull()) &&
+                current.score < foundNearestNeighbors.worstScore()
             ) {
                 break;
             }
 
-            if (!current.neighbors[level]) current.neighbors[level] = [];
+            const currentNode = current.item;
+            if (!currentNode.neighbors[level])
+                currentNode.neighbors[level] = [];
 
             // Now iterate on its neighbors, looking for elements more similar than furthest
-            for (const neighborId of current.neighbors[level]) {
+            for (const neighborId of currentNode.neighbors[level]) {
                 if (neighborId && !visited.has(neighborId)) {
                     // add to visited
                     visited.add(neighborId);
-                    // get latest furthest
-                    furthest = foundNearestNeighbors.getLast()!;
 
-                    const neighbor = this.nodes.get(neighborId)!;
-                    const neighborSimilarity = this.similarityFunction(
-                        query,
-                        neighbor.vector
-                    );
+                    const neighbor = this.nodes.get(neighborId);
+                    if (!neighbor) continue;
+                    const neighborSimilarity = score(neighbor);
 
                     if (
-                        foundNearestNeighbors.size() < ef ||
-                        neighborSimilarity >
-                            this.similarityFunction(query, furthest.vector)
+                        !foundNearestNeighbors.isFull() ||
+                        neighborSimilarity > foundNearestNeighbors.worstScore()
                     ) {
-                        candidates.push(neighbor);
-                        foundNearestNeighbors.push(neighbor);
-
-                        // If neighbors size exceeded, remove the least similar one
-                        if (foundNearestNeighbors.size() > ef) {
-                            foundNearestNeighbors.popLast();
+                        candidates.push({
+                            item: neighbor,
+                            score: neighborSimilarity,
+                        });
+                        if (!filter || filter(neighbor)) {
+                            foundNearestNeighbors.push(
+                                neighbor,
+                                neighborSimilarity
+                            );
                         }
                     }
                 }
             }
         }
-        return foundNearestNeighbors;
+        return foundNearestNeighbors.toArray();
     }
 
     /**
-     * Merge in new candidates and discard the furthest ones
-     * Skips deleted nodes in the process
+     * Merge in new candidates, a node found on several levels is kept once
+     * Skips deleted nodes and nodes not passing the filter in the process
      * @param bestCandidates
      * @param newCandidates
-     * @param maxSize
+     * @param filter
      */
     private updateBestCandidates(
-        query: Float32Array | number[],
-        bestCandidates: PriorityQueue<AstroNode>,
-        newCandidates: AstroNode[],
-        maxSize: number
+        bestCandidates: Map<string, Scored<AstroNode>>,
+        newCandidates: Scored<AstroNode>[],
+        filter?: NodeFilter
     ) {
-        // Add in all new candidates
         for (const candidate of newCandidates) {
-            if (candidate.deleted) continue;
-            bestCandidates.push(candidate);
-        }
-
-        // Discard the furthest ones until maxSize is reached
-        while (bestCandidates.size() > maxSize) {
-            bestCandidates.popLast();
+            if (candidate.item.deleted) continue;
+            if (filter && !filter(candidate.item)) continue;
+            bestCandidates.set(candidate.item.uniqueid, candidate);
         }
     }
 
@@ -405,25 +1488,120 @@ export class HNSW {
      * @param beamSize
      * @returns
      */
-    private getTopBeam(candidates: AstroNode[], beamSize: number): AstroNode[] {
-        if (beamSize >= candidates.length) return candidates;
-        return candidates.slice(0, beamSize);
+    private getTopBeam(
+        candidates: Scored<AstroNode>[],
+        beamSize: number
+    ): AstroNode[] {
+        return candidates.slice(0, beamSize).map(({ item }) => item);
     }
 
     /**
      * Select the top numbNeighborsToReturn
-     * @param nearestNeighbors
+     * @param nearestNeighbors sorted by similarity, most similar first
      * @param numbNeighborsToReturn
      * @returns
      */
     private selectNeighbors(
-        nearestNeighbors: PriorityQueue<AstroNode>,
+        nearestNeighbors: Scored<AstroNode>[],
         numbNeighborsToReturn = this.M
-    ) {
-        const nearestNeighborsArr = nearestNeighbors.toArray();
-        if (numbNeighborsToReturn >= nearestNeighborsArr.length)
-            return nearestNeighborsArr;
-        return nearestNeighborsArr.slice(0, numbNeighborsToReturn);
+    ): AstroNode[] {
+        return nearestNeighbors
+            .slice(0, numbNeighborsToReturn)
+            .map(({ item }) => item);
+    }
+
+    /**
+     * Picks the neighbors of a node at a level with the neighborSelection
+     * strategy
+     * @param uniqueid the node getting the neighbors
+     * @param candidates sorted by similarity to the node, most similar first
+     * @param level
+     * @param score similarity of a node to the node getting the neighbors
+     * @param numbNeighborsToReturn
+     * @returns
+     */
+    private chooseNeighbors(
+        uniqueid: string,
+        candidates: Scored<AstroNode>[],
+        level: number,
+        score: Scorer,
+        numbNeighborsToReturn = this.M
+    ): AstroNode[] {
+        if (this.neighborSelection === "simple") {
+            return this.selectNeighbors(candidates, numbNeighborsToReturn);
+        }
+        return this.selectNeighborsHeuristic(
+            uniqueid,
+            candidates,
+            level,
+            score,
+            numbNeighborsToReturn
+        );
+    }
+
+    /**
+     * Algorithm 4 of the paper: goes through the candidates from the most
+     * similar and keeps a candidate only if it is more similar to the node
+     * than to every neighbor kept so far
+     * @param uniqueid
+     * @param candidates sorted by similarity to the node, most similar first
+     * @param level
+     * @param score
+     * @param numbNeighborsToReturn
+     * @returns
+     */
+    private selectNeighborsHeuristic(
+        uniqueid: string,
+        candidates: Scored<AstroNode>[],
+        level: number,
+        score: Scorer,
+        numbNeighborsToReturn: number
+    ): AstroNode[] {
+        let working = candidates;
+        if (this.extendCandidates) {
+            const seen = new Set<string>([uniqueid]);
+            for (const { item } of candidates) seen.add(item.uniqueid);
+            const extended = [...candidates];
+            for (const { item } of candidates) {
+                for (const neighborId of item.neighbors[level] ?? []) {
+                    if (seen.has(neighborId)) continue;
+                    seen.add(neighborId);
+                    const neighbor = this.nodes.get(neighborId);
+                    if (neighbor) {
+                        extended.push({
+                            item: neighbor,
+                            score: score(neighbor),
+                        });
+                    }
+                }
+            }
+            working = extended.sort((a, b) => b.score - a.score);
+        }
+
+        const selected: AstroNode[] = [];
+        const pruned: AstroNode[] = [];
+        for (const { item, score: similarity } of working) {
+            if (selected.length >= numbNeighborsToReturn) break;
+            const vector = this.vectorOf(item);
+            if (
+                selected.every(
+                    (neighbor) =>
+                        this.similarityTo(vector, neighbor) < similarity
+                )
+            ) {
+                selected.push(item);
+            } else {
+                pruned.push(item);
+            }
+        }
+
+        if (this.keepPrunedConnections) {
+            for (const item of pruned) {
+                if (selected.length >= numbNeighborsToReturn) break;
+                selected.push(item);
+            }
+        }
+        return selected;
     }
 
     /**
@@ -438,6 +1616,8 @@ export class HNSW {
         nodeB: AstroNode,
         level: number
     ) {
+        this.touch(nodeA.uniqueid);
+        this.touch(nodeB.uniqueid);
         if (!nodeA.neighbors[level]) nodeA.neighbors[level] = [];
         if (!nodeB.neighbors[level]) nodeB.neighbors[level] = [];
 
@@ -454,6 +1634,8 @@ export class HNSW {
         if (!nodeB.neighbors[level].includes(nodeA.uniqueid)) {
             nodeB.neighbors[level].push(nodeA.uniqueid);
         }
+        this.nodeChanged(nodeA.uniqueid);
+        this.nodeChanged(nodeB.uniqueid);
     }
 
     /**
@@ -465,22 +1647,32 @@ export class HNSW {
     private shrinkConnectionsIfNeeded(node: AstroNode, level: number) {
         let neighbors = node.neighbors[level];
         if (neighbors.length > this.M) {
-            const oldNeighbors = new PriorityQueue<AstroNode>(
-                (a, b) =>
-                    this.similarityFunction(node.vector, b.vector) -
-                    this.similarityFunction(node.vector, a.vector)
-            );
+            const nodeVector = this.vectorOf(node);
+            const oldNeighbors: Scored<AstroNode>[] = [];
 
             neighbors.forEach((neighborId) => {
                 const neighborNode = this.nodes.get(neighborId);
-                if (neighborNode) oldNeighbors.push(neighborNode);
+                if (neighborNode) {
+                    oldNeighbors.push({
+                        item: neighborNode,
+                        score: this.similarityTo(nodeVector, neighborNode),
+                    });
+                }
             });
+            oldNeighbors.sort((a, b) => b.score - a.score);
 
-            const newNeighborNodes = this.selectNeighbors(oldNeighbors, this.M);
+            const newNeighborNodes = this.chooseNeighbors(
+                node.uniqueid,
+                oldNeighbors,
+                level,
+                (neighbor) => this.similarityTo(nodeVector, neighbor)
+            );
             const newNeighborIds = newNeighborNodes.map(
                 (node) => node.uniqueid
             );
+            this.touch(node.uniqueid);
             node.neighbors[level] = newNeighborIds;
+            this.nodeChanged(node.uniqueid);
 
             return node;
         }
@@ -489,281 +1681,434 @@ export class HNSW {
     }
 
     /**
-     * Update point that marks the node as deleted and adds a new point with the updated vector
+     * Replaces the vector of a node in place, keeping its id and level.
+     * If the node stays within its neighborhood, its links are repaired
+     * locally as hnswlib does: its neighbors pick their links again among
+     * their neighbors and the node's, then the node is linked to its new
+     * closest nodes at each level. If it moved further than its least
+     * similar neighbor, it is unlinked (the nodes linking to it are repaired
+     * as in vacuum) and inserted again. Missing nodes are added, and deleted
+     * ones come back.
      * @param uniqueid
      * @param newVector
+     * @param metadata new metadata, the existing metadata is kept if not given
+     * @param text new text, the existing text is kept if not given
      * @returns
      */
-    updatePoint(uniqueid: string, newVector: Float32Array | number[]) {
+    updatePoint(
+        uniqueid: string,
+        newVector: Float32Array | number[],
+        metadata?: Record<string, any>,
+        text?: string
+    ) {
         const node = this.nodes.get(uniqueid);
         if (!node) {
-            this.addPoint(uniqueid, newVector);
+            this.addPoint(uniqueid, newVector, metadata, text);
             return;
         }
+        if (!newVector || newVector.length == 0) return;
 
-        // Mark the existing node as deleted
-        node.deleted = true;
-
-        this.nodes.set(uniqueid, node);
+        if (this.d !== null && newVector.length !== this.d) {
+            throw new Error("All vectors must be of the same dimension");
+        }
 
-        // Add the new node with updated vector
-        this.addPoint(uniqueid, newVector);
+        const reinsert = this.movedOutOfNeighborhood(node, newVector);
 
-        // Optionally, implement a mechanism to rebuild the index if too many nodes are deleted
-        // TODO: as users start to have thousands of deleted nodes, this will need to be implemented
-        // if (this.shouldRebuildIndex()) {
-        //   await this.rebuildIndex();
-        // }
+        this.touch(uniqueid);
+        node.metadata = metadata ?? node.metadata;
+        node.text = text ?? node.text;
+        node.deleted = false;
+        // replaced rather than mutated, applyBatch shares them with its backup
+        if (this.quantizer) {
+            node.codes = this.quantizer.encode(newVector);
+            this.onFullVector(uniqueid, newVector);
+        } else {
+            node.vector = newVector;
+        }
+        this.stamp(node);
+        this.nodeChanged(uniqueid);
+
+        if (this.indexType === "hnsw") {
+            if (reinsert) {
+                this.reinsertNode(node, newVector);
+            } else {
+                this.repairNeighborLinks(node);
+                this.addNodeToGraphOptimized(node, node.level, newVector, true);
+            }
+        }
+        this.emit("update", { uniqueid });
     }
 
     /**
-     * Not currently being used update method that reassigns connections
-     * Adapted from here though:
-     * https://github.com/nmslib/hnswlib/blob/master/hnswlib/hnswalg.h
-     * @param uniqueid
-     * @param vector
+     * Whether a new vector is less similar to the node's current vector than
+     * its least similar neighbor on the bottom level, in which case its
+     * links are not worth repairing
+     * @param node
+     * @param newVector
      * @returns
      */
-    updatePointReassign(uniqueid: string, newVector: Float32Array | number[]) {
-        const result = this.findNodeAndIncomingConnections(uniqueid, newVector);
-        if (!result) {
-            // Node not found, add as new point
-            this.addPoint(uniqueid, newVector);
-            return;
-        }
-        const node = this.nodes.get(uniqueid)!;
-
-        console.log("INCOMING CONNECTIONS: ", result.incomingConnections);
-
-        const { incomingConnections } = result;
-
-        // Reassign connections and shrink if necessary
-        this.reassignConnections(node, incomingConnections);
-
-        // Remove the old node
-        this.nodes.delete(uniqueid);
-
-        // Add the new node with updated vector
-        this.addPoint(uniqueid, newVector);
-    }
-
-    findNodeAndIncomingConnections(
-        targetId: string,
-        targetVector: Float32Array | number[]
+    private movedOutOfNeighborhood(
+        node: AstroNode,
+        newVector: Float32Array | number[]
     ) {
-        if (!this.entryPointId) {
-            return null;
-        }
-
-        const incomingConnections = new Map<number, Set<string>>();
-        const visited = new Set<string>();
-        let beam = [this.nodes.get(this.entryPointId)!];
-        let targetNode: AstroNode | null = null;
-
-        for (let level = this.levelMax; level >= 0; level--) {
-            const layerResults = this.searchLayerForNode(
-                targetId,
-                targetVector,
-                beam,
-                level,
-                incomingConnections,
-                visited
-            );
-
-            if (layerResults.found && !targetNode) {
-                targetNode = layerResults.node;
+        const oldVector = this.vectorOf(node);
+        let leastSimilar = Infinity;
+        for (const neighborId of node.neighbors[0] ?? []) {
+            const neighbor = this.nodes.get(neighborId);
+            if (neighbor) {
+                leastSimilar = Math.min(
+                    leastSimilar,
+                    this.similarityTo(oldVector, neighbor)
+                );
             }
-
-            beam = this.getTopBeam(
-                layerResults.candidates,
-                Math.max(10, this.efConstruction)
-            );
-        }
-
-        if (!targetNode) {
-            return null; // Node not found
         }
-
-        // Perform a limited additional search for incoming connections
-        // Currently not being used for performance reasons
-        // await this.findLimitedAdditionalConnections(
-        //   targetNode,
-        //   incomingConnections,
-        //   visited,
-        // );
-
-        return { node: targetNode, incomingConnections };
+        // no neighbors, nothing to repair from
+        if (leastSimilar === Infinity) return true;
+        return this.similarityFunction(oldVector, newVector) < leastSimilar;
     }
 
-    private searchLayerForNode(
-        targetId: string,
-        targetVector: Float32Array | number[],
-        entryPoints: AstroNode[],
-        level: number,
-        incomingConnections: Map<number, Set<string>>,
-        visited: Set<string>
-    ) {
-        const candidates = new PriorityQueue<AstroNode>(
-            (a, b) =>
-                this.similarityFunction(targetVector, b.vector) -
-                this.similarityFunction(targetVector, a.vector)
-        );
-
-        let found = false;
-        let foundNode: AstroNode | null = null;
+    /**
+     * First step of a local update: at each level of the node, each of its
+     * neighbors picks its links again among its own neighbors, the node's
+     * neighbors and the node with its new vector
+     * @param node
+     */
+    private repairNeighborLinks(node: AstroNode) {
+        for (let level = 0; level <= node.level; level++) {
+            const neighbors: AstroNode[] = [];
+            const candidates = new Map<string, AstroNode>([
+                [node.uniqueid, node],
+            ]);
+            for (const neighborId of node.neighbors[level] ?? []) {
+                const neighbor = this.nodes.get(neighborId);
+                if (!neighbor) continue;
+                neighbors.push(neighbor);
+                candidates.set(neighborId, neighbor);
+                for (const twoHopId of neighbor.neighbors[level] ?? []) {
+                    const twoHop = this.nodes.get(twoHopId);
+                    if (twoHop) candidates.set(twoHopId, twoHop);
+                }
+            }
 
-        for (const ep of entryPoints) {
-            if (!visited.has(ep.uniqueid)) {
-                visited.add(ep.uniqueid);
-                candidates.push(ep);
+            for (const neighbor of neighbors) {
+                const neighborVector = this.vectorOf(neighbor);
+                const score = (candidate: AstroNode) =>
+                    this.similarityTo(neighborVector, candidate);
+                const scored: Scored<AstroNode>[] = [];
+                for (const candidate of candidates.values()) {
+                    if (candidate !== neighbor) {
+                        scored.push({
+                            item: candidate,
+                            score: score(candidate),
+                        });
+                    }
+                }
+                scored.sort((a, b) => b.score - a.score);
+
+                this.touch(neighbor.uniqueid);
+                neighbor.neighbors[level] = this.chooseNeighbors(
+                    neighbor.uniqueid,
+                    scored.slice(0, this.efConstruction),
+                    level,
+                    score
+                ).map(({ uniqueid }) => uniqueid);
+                this.nodeChanged(neighbor.uniqueid);
             }
         }
+    }
 
-        while (!candidates.isEmpty()) {
-            const current = candidates.popFirst()!;
+    /**
+     * Unlinks a node from the graph, repairing the nodes that linked to it,
+     * then inserts it again at the same level
+     * @param node
+     * @param vector full precision vector of the node
+     */
+    private reinsertNode(node: AstroNode, vector: Float32Array | number[]) {
+        this.removeNodeFromGraph(node, this.findIncomingConnections(node));
+        if (this.entryPointId === node.uniqueid) this.electEntryPoint();
+
+        node.neighbors = [];
+        this.nodes.set(node.uniqueid, node);
+        this.nodeChanged(node.uniqueid);
+        this.addNodeToGraphOptimized(node, node.level, vector);
+    }
 
-            if (current.uniqueid === targetId) {
-                found = true;
-                foundNode = current;
+    /**
+     * Looks for the nodes linking to a node among its neighbors and their
+     * neighbors, as hnswlib does, rather than scanning the whole graph.
+     * Links are mostly mutual so few are missed, and those still point to
+     * an existing node once it is inserted again.
+     * @param node
+     * @returns the ids of the nodes linking to the node, per level
+     */
+    private findIncomingConnections(node: AstroNode) {
+        const incomingConnections = new Map<number, Set<string>>();
+        node.neighbors.forEach((neighborIds, level) => {
+            const candidates = new Set<string>();
+            for (const neighborId of neighborIds) {
+                candidates.add(neighborId);
+                const neighbor = this.nodes.get(neighborId);
+                for (const id of neighbor?.neighbors[level] ?? []) {
+                    candidates.add(id);
+                }
             }
+            candidates.delete(node.uniqueid);
 
-            if (!current.neighbors[level]) current.neighbors[level] = [];
-
-            for (const neighborId of current.neighbors[level]) {
-                if (neighborId && !visited.has(neighborId)) {
-                    visited.add(neighborId);
-                    const neighbor = this.nodes.get(neighborId)!;
-
-                    candidates.push(neighbor);
+            const incoming = new Set<string>();
+            for (const candidateId of candidates) {
+                const candidate = this.nodes.get(candidateId);
+                if (candidate?.neighbors[level]?.includes(node.uniqueid)) {
+                    incoming.add(candidateId);
+                }
+            }
+            if (incoming.size > 0) incomingConnections.set(level, incoming);
+        });
+        return incomingConnections;
+    }
 
-                    if (!incomingConnections.has(level)) {
-                        incomingConnections.set(level, new Set());
-                    }
-                    incomingConnections.get(level)!.add(current.uniqueid);
+    /**
+     * Applies a list of add, update and remove operations as one unit: if
+     * any of them throws (e.g. a vector of the wrong dimension), the graph
+     * is rolled back to its state before the batch and the error rethrown.
+     * Only the nodes the batch changes are copied, see touch. Events of the
+     * operations are emitted once they all succeeded, none on rollback.
+     * @param operations
+     */
+    applyBatch(operations: BatchOperation[]) {
+        if (this.batchBackup) {
+            throw new Error("A batch is already running");
+        }
 
-                    if (neighborId === targetId) {
-                        found = true;
-                        foundNode = neighbor;
-                    }
+        const nodes = new Map<string, AstroNode | null>();
+        const backup = {
+            d: this.d,
+            levelMax: this.levelMax,
+            entryPointId: this.entryPointId,
+            indexType: this.indexType,
+            random: this.randomState(),
+            syncSequence: this.syncSequence,
+            tombstones: new Map(this.tombstones),
+        };
+        const events: (() => void)[] = [];
+        this.batchBackup = nodes;
+        this.batchEvents = events;
+
+        try {
+            for (const operation of operations) {
+                switch (operation.type) {
+                    case "add":
+                        this.addPoint(
+                            operation.uniqueid,
+                            operation.vector,
+                            operation.metadata,
+                            operation.text
+                        );
+                        break;
+                    case "update":
+                        this.updatePoint(
+                            operation.uniqueid,
+                            operation.vector,
+                            operation.metadata,
+                            operation.text
+                        );
+                        break;
+                    case "remove":
+                        this.removePoint(operation.uniqueid);
+                        break;
+                    default:
+                        throw new Error(
+                            `Unknown batch operation: ${
+                                (operation as { type: string }).type
+                            }`
+                        );
                 }
             }
-
-            // Limit the number of explored candidates per layer
-            if (candidates.size() > this.efConstruction * 2) {
-                break;
+        } catch (error) {
+            for (const [uniqueid, node] of nodes) {
+                if (node) {
+                    this.nodes.set(uniqueid, node);
+                } else {
+                    this.nodes.delete(uniqueid);
+                }
+            }
+            this.d = backup.d;
+            this.levelMax = backup.levelMax;
+            this.entryPointId = backup.entryPointId;
+            this.indexType = backup.indexType;
+            if (backup.random) {
+                this.seedRandom(backup.random.seed, backup.random.state);
             }
+            this.syncSequence = backup.syncSequence;
+            this.tombstones = backup.tombstones;
+            // so subclasses bring what they track back in line
+            for (const uniqueid of nodes.keys()) this.nodeChanged(uniqueid);
+            throw error;
+        } finally {
+            this.batchBackup = null;
+            this.batchEvents = null;
         }
-
-        return { found, node: foundNode, candidates: candidates.toArray() };
+        for (const emit of events) emit();
     }
 
-    private async findLimitedAdditionalConnections(
-        targetNode: AstroNode,
-        incomingConnections: Map<number, Set<string>>,
-        visited: Set<string>
-    ) {
-        const maxExplorations = this.efConstruction * 2;
-        let explorations = 0;
-
-        const queue = new PriorityQueue<AstroNode>(
-            (a, b) =>
-                this.similarityFunction(targetNode.vector, b.vector) -
-                this.similarityFunction(targetNode.vector, a.vector)
-        );
-
-        queue.push(this.nodes.get(this.entryPointId)!);
-
-        while (!queue.isEmpty() && explorations < maxExplorations) {
-            const current = queue.popFirst()!;
-            explorations++;
+    /**
+     * Changes to sync to another copy of the index: the current state of
+     * the nodes changed since the cursor, and the nodes removed since then.
+     * In quantized mode the vectors are decoded from the codes.
+     * @param cursor cursor of the previous changeset, 0 for every node
+     * @returns
+     */
+    getChangesSince(cursor = 0): SyncChangeset {
+        const upserts: SyncUpsert[] = [];
+        for (const node of this.nodes.values()) {
+            // nodes stamped before sync existed have version 0
+            if (node.deleted || (node.version ?? 0) < cursor) continue;
+            upserts.push({
+                uniqueid: node.uniqueid,
+                vector: Array.from(this.vectorOf(node)),
+                metadata: node.metadata,
+                text: node.text,
+                updatedAt: node.updatedAt ?? 0,
+            });
+        }
+        const deletes = Array.from(this.tombstones)
+            .filter(([, tombstone]) => tombstone.version >= cursor)
+            .map(([uniqueid, { updatedAt }]) => ({ uniqueid, updatedAt }));
+        return { cursor: this.syncSequence + 1, upserts, deletes };
+    }
 
-            for (let level = 0; level <= current.level; level++) {
-                if (!current.neighbors[level]) continue;
+    /**
+     * Imports the changes of another copy of the index (see
+     * getChangesSince), the most recent change of each node winning (see
+     * remoteWins). Removals of unknown nodes are kept as tombstones, so an
+     * older copy of the node synced later doesn't bring it back. An invalid
+     * change is reported as failed without stopping the others.
+     * @param changeset
+     * @param progressCallback called with the progress from 0 to 100
+     * @returns the ids of the nodes added, updated, removed or left as they
+     * were
+     */
+    applySyncChanges(
+        changeset: Omit<SyncChangeset, "cursor">,
+        progressCallback?: (progress: number) => void
+    ): SyncSummary {
+        const summary: SyncSummary = {
+            added: [],
+            updated: [],
+            removed: [],
+            skipped: [],
+            failed: [],
+        };
+        const total = changeset.upserts.length + changeset.deletes.length;
+        let processed = 0;
+        const report = () => {
+            processed++;
+            if (progressCallback && processed % 25 === 0) {
+                progressCallback((processed / total) * 100);
+            }
+        };
 
-                for (const neighborId of current.neighbors[level]) {
-                    if (neighborId === targetNode.uniqueid) {
-                        if (!incomingConnections.has(level)) {
-                            incomingConnections.set(level, new Set());
-                        }
-                        incomingConnections.get(level)!.add(current.uniqueid);
-                    } else if (!visited.has(neighborId)) {
-                        visited.add(neighborId);
-                        const neighbor = this.nodes.get(neighborId)!;
-                        queue.push(neighbor);
-                    }
-                }
+        for (const change of changeset.upserts) {
+            try {
+                summary[this.importUpsert(change)].push(change.uniqueid);
+            } catch (error) {
+                summary.failed.push({
+                    uniqueid: change.uniqueid,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                });
             }
+            report();
         }
-    }
 
-    private reassignConnections(
-        node: AstroNode,
-        incomingConnections: Map<number, Set<string>>
-    ) {
-        for (let level = 0; level <= node.level; level++) {
-            if (!node.neighbors[level]) continue;
+        for (const { uniqueid, updatedAt } of changeset.deletes) {
+            const node = this.nodes.get(uniqueid);
+            const tombstone = this.tombstones.get(uniqueid);
+            const live = node && !node.deleted;
+            const local = live ? node.updatedAt ?? 0 : tombstone?.updatedAt;
+            if (!remoteWins(local, updatedAt, true, !live)) {
+                summary.skipped.push(uniqueid);
+            } else {
+                if (live) this.removePoint(uniqueid);
+                // a new version, so the removal is passed on to other copies
+                this.tombstones.set(uniqueid, {
+                    version: ++this.syncSequence,
+                    updatedAt,
+                });
+                summary[live ? "removed" : "skipped"].push(uniqueid);
+            }
+            report();
+        }
 
-            for (const neighborId of node.neighbors[level]) {
-                const neighborNode = this.nodes.get(neighborId)!;
+        if (progressCallback) progressCallback(100);
+        return summary;
+    }
 
-                // Remove the connection to the node being updated
-                neighborNode.neighbors[level] = neighborNode.neighbors[
-                    level
-                ].filter((id) => id !== node.uniqueid);
+    /**
+     * Applies an upsert of applySyncChanges
+     * @param change
+     * @returns the list of the summary it goes in
+     */
+    private importUpsert(
+        change: SyncUpsert
+    ): Exclude<keyof SyncSummary, "failed"> {
+        const { uniqueid, vector, metadata, text, updatedAt } = change;
+        if (!vector || vector.length === 0) {
+            throw new Error("Cannot sync an empty vector");
+        }
+        const node = this.nodes.get(uniqueid);
+        const live = node && !node.deleted;
+        const local = live
+            ? node.updatedAt ?? 0
+            : this.tombstones.get(uniqueid)?.updatedAt;
+        if (!remoteWins(local, updatedAt, false, !live)) return "skipped";
 
-                // Find the closest neighbor of the node to the current neighbor from incoming connections
-                let closestNeighbor: AstroNode | null = null;
-                let maxSimilarity = -Infinity;
-
-                const incomingNodesAtLevel =
-                    incomingConnections.get(level) || new Set<string>();
-                for (const incomingNodeId of incomingNodesAtLevel) {
-                    if (incomingNodeId === neighborId) continue;
-                    const incomingNode = this.nodes.get(incomingNodeId)!;
-                    const similarity = this.similarityFunction(
-                        neighborNode.vector,
-                        incomingNode.vector
-                    );
+        if (!node) {
+            this.addPoint(uniqueid, vector, metadata, text);
+            this.nodes.get(uniqueid)!.updatedAt = updatedAt;
+            return "added";
+        }
 
-                    if (similarity > maxSimilarity) {
-                        maxSimilarity = similarity;
-                        closestNeighbor = incomingNode;
-                    }
-                }
+        const sameVector = this.hasSameVector(uniqueid, vector);
+        if (
+            live &&
+            sameVector &&
+            node.text === text &&
+            JSON.stringify(node.metadata) === JSON.stringify(metadata)
+        ) {
+            // already up to date, only the time is taken so both copies
+            // resolve later conflicts the same way
+            node.updatedAt = updatedAt;
+            this.nodeChanged(uniqueid);
+            return "skipped";
+        }
 
-                // Connect the neighbor and the closest incoming neighbor
-                if (closestNeighbor) {
-                    if (
-                        !neighborNode.neighbors[level].includes(
-                            closestNeighbor.uniqueid
-                        )
-                    ) {
-                        neighborNode.neighbors[level].push(
-                            closestNeighbor.uniqueid
-                        );
-                    }
-                    if (
-                        !closestNeighbor.neighbors[level].includes(
-                            neighborNode.uniqueid
-                        )
-                    ) {
-                        closestNeighbor.neighbors[level].push(
-                            neighborNode.uniqueid
-                        );
-                    }
-                }
-            }
+        if (!live || !sameVector) {
+            this.withoutEvents(() => this.updatePoint(uniqueid, vector));
         }
+        // the upsert is the whole state, missing metadata or text is removed
+        node.metadata = metadata;
+        node.text = text;
+        this.stamp(node, updatedAt);
+        this.nodeChanged(uniqueid);
+        this.emit("update", { uniqueid });
+        return "updated";
+    }
 
-        // Remove the node from all incoming connections
-        for (const [level, incomingNodeIds] of incomingConnections) {
-            for (const incomingNodeId of incomingNodeIds) {
-                const incomingNode = this.nodes.get(incomingNodeId)!;
-                incomingNode.neighbors[level] = incomingNode.neighbors[
-                    level
-                ].filter((id) => id !== node.uniqueid);
-            }
+    /**
+     * Forgets the tombstones older than a time, to bound their number. A
+     * copy that last synced before then may bring the removed nodes back.
+     * @param before time in ms since the epoch
+     * @returns the number of tombstones dropped
+     */
+    pruneTombstones(before: number) {
+        let pruned = 0;
+        for (const [uniqueid, tombstone] of this.tombstones) {
+            if (tombstone.updatedAt >= before) continue;
+            this.tombstones.delete(uniqueid);
+            pruned++;
         }
+        if (pruned > 0) this.version++;
+        return pruned;
     }
 
     buildIndex(data: { uniqueid: string; vector: Float32Array | number[] }[]) {
@@ -771,6 +2116,7 @@ export class HNSW {
         this.nodes.clear();
         this.levelMax = 0;
         this.entryPointId = "";
+        this.graphReset();
 
         // Add points to the index
         for (const item of data) {
@@ -783,8 +2129,19 @@ export class HNSW {
         return {
             M: this.M,
             efConstruction: this.efConstruction,
+            metric: this.metric,
+            d: this.d,
             levelMax: this.levelMax,
             entryPointId: this.entryPointId,
+            quantizer: this.quantizer ? this.quantizer.toJSON() : undefined,
+            indexType: this.indexType,
+            flatThreshold: this.flatThreshold,
+            neighborSelection: this.neighborSelection,
+            extendCandidates: this.extendCandidates,
+            keepPrunedConnections: this.keepPrunedConnections,
+            random: this.randomState(),
+            syncSequence: this.syncSequence,
+            tombstones: Array.from(this.tombstones),
             nodes: entries.map(([uniqueid, node]) => {
                 return [uniqueid, node.toJSON()];
             }),
@@ -792,18 +2149,218 @@ export class HNSW {
     }
 
     static fromJSON(json: any): HNSW {
-        const hnsw = new HNSW(json.M, json.efConstruction);
+        // indexes saved before the metric was persisted are cosine, and
+        // the ones saved before the heuristic existed were built without it
+        const hnsw = new HNSW(
+            json.M,
+            json.efConstruction,
+            json.d ?? null,
+            json.metric ?? "cosine",
+            json.neighborSelection ?? "simple"
+        );
+        hnsw.extendCandidates = json.extendCandidates ?? false;
+        hnsw.keepPrunedConnections = json.keepPrunedConnections ?? false;
+        if (json.random) {
+            hnsw.seedRandom(json.random.seed, json.random.state);
+        }
         hnsw.levelMax = json.levelMax;
         hnsw.entryPointId = json.entryPointId;
+        // indexes saved before flat indexes existed are HNSW
+        hnsw.indexType = json.indexType ?? "hnsw";
+        hnsw.flatThreshold = json.flatThreshold ?? null;
+        // indexes saved before sync existed have no stamps
+        hnsw.syncSequence = json.syncSequence ?? 0;
+        hnsw.tombstones = new Map(json.tombstones ?? []);
+        if (json.quantizer) {
+            hnsw.quantizer = parseQuantizer(json.quantizer);
+        }
         hnsw.nodes = new Map(
             json.nodes.map(([uniqueid, node]: [number, any]) => {
-                return [
-                    uniqueid,
-                    AstroNode.parse({
-                        ...node,
-                        vector: new Float32Array(node.vector),
-                    }),
-                ];
+                return [uniqueid, hnsw.parseNode(node)];
+            })
+        );
+        return hnsw;
+    }
+
+    /**
+     * Node from its toJSON record
+     * @param node
+     * @returns
+     */
+    private parseNode(node: Record<string, any>) {
+        return AstroNode.parse({
+            ...node,
+            vector: new Float32Array(node.vector),
+            codes:
+                node.codes && this.quantizer
+                    ? this.quantizer.codesFrom(node.codes)
+                    : undefined,
+        });
+    }
+
+    /**
+     * Replaces this graph with another one, e.g. freshly deserialized
+     * @param hnsw
+     */
+    protected adopt(hnsw: HNSW) {
+        this.M = hnsw.M;
+        this.efConstruction = hnsw.efConstruction;
+        this.metric = hnsw.metric;
+        this.similarityFunction = hnsw.similarityFunction;
+        this.d = hnsw.d;
+        this.levelMax = hnsw.levelMax;
+        this.entryPointId = hnsw.entryPointId;
+        this.nodes = hnsw.nodes;
+        this.quantizer = hnsw.quantizer;
+        this.indexType = hnsw.indexType;
+        this.flatThreshold = hnsw.flatThreshold;
+        this.neighborSelection = hnsw.neighborSelection;
+        this.extendCandidates = hnsw.extendCandidates;
+        this.keepPrunedConnections = hnsw.keepPrunedConnections;
+        this.seed = hnsw.seed;
+        this.rng = hnsw.rng;
+        this.random = hnsw.random;
+        this.syncSequence = hnsw.syncSequence;
+        this.tombstones = hnsw.tombstones;
+        this.graphReset();
+        this.emit("load", { size: this.nodes.size });
+    }
+
+    /**
+     * Applies the changes made to a copy of this graph (e.g. by the worker),
+     * in the layout storage adapters save. Emits the add, update and remove
+     * events of the nodes changed by the copy, or load if it replaced the
+     * whole graph.
+     * @param changes
+     */
+    applyChanges(changes: CollectionChanges) {
+        const { header } = changes;
+        this.d = header.d ?? null;
+        this.levelMax = header.levelMax;
+        this.entryPointId = header.entryPointId;
+        // a flat index may have built its graph
+        this.indexType = header.indexType ?? "hnsw";
+        this.flatThreshold = header.flatThreshold ?? null;
+        // so the next levels drawn here follow the ones drawn by the copy
+        if (header.random) {
+            this.seedRandom(header.random.seed, header.random.state);
+        }
+        this.syncSequence = header.syncSequence ?? 0;
+        this.tombstones = new Map(header.tombstones ?? []);
+
+        const events: { type: HNSWEventType; uniqueid: string }[] = [];
+        const classify = !changes.full && this.events.hasListeners();
+        if (changes.full) this.nodes = new Map<string, AstroNode>();
+        for (const [uniqueid, node] of changes.nodes) {
+            const before = this.nodes.get(uniqueid);
+            const after = node ? this.parseNode(node) : undefined;
+            if (after) {
+                this.nodes.set(uniqueid, after);
+            } else {
+                this.nodes.delete(uniqueid);
+            }
+            if (!changes.full) this.nodeChanged(uniqueid);
+            const type = classify && this.changeType(before, after);
+            if (type) events.push({ type, uniqueid });
+        }
+        if (changes.full) this.graphReset();
+
+        for (const [uniqueid, vector] of changes.vectors) {
+            this.onFullVector(uniqueid, vector);
+        }
+
+        if (changes.full) {
+            this.emit("load", { size: this.nodes.size });
+        }
+        for (const { type, uniqueid } of events) this.emit(type, { uniqueid });
+    }
+
+    /**
+     * Event of a node replaced by applyChanges
+     * @param before
+     * @param after
+     * @returns null when only its links changed
+     */
+    private changeType(
+        before: AstroNode | undefined,
+        after: AstroNode | undefined
+    ): HNSWEventType | null {
+        const removed = !after || after.deleted;
+        if (!before || before.deleted) {
+            if (removed) return null;
+            return before ? "update" : "add";
+        }
+        if (removed) return "remove";
+
+        // compared as float32, plain arrays come back from the copy as such
+        const sameArray = (
+            a: ArrayLike<number> | undefined,
+            b: ArrayLike<number> | undefined
+        ) => {
+            if (!a || !b) return a === b;
+            if (a.length !== b.length) return false;
+            for (let i = 0; i < a.length; i++) {
+                if (Math.fround(a[i]) !== Math.fround(b[i])) return false;
+            }
+            return true;
+        };
+        const unchanged =
+            sameArray(before.vector, after.vector) &&
+            sameArray(before.codes, after.codes) &&
+            before.text === after.text &&
+            JSON.stringify(before.metadata) === JSON.stringify(after.metadata);
+        return unchanged ? null : "update";
+    }
+
+    /**
+     * Compact binary snapshot of the index, much smaller and faster to parse
+     * than toJSON. The buffer can be transferred to a worker without copying.
+     * @returns
+     */
+    toBinary(): ArrayBuffer {
+        return writeSnapshot(this);
+    }
+
+    static fromBinary(buffer: ArrayBuffer): HNSW {
+        const snapshot = readSnapshot(buffer);
+        const hnsw = new HNSW(
+            snapshot.M,
+            snapshot.efConstruction,
+            snapshot.d,
+            snapshot.metric,
+            snapshot.neighborSelection.strategy
+        );
+        hnsw.extendCandidates = snapshot.neighborSelection.extendCandidates;
+        hnsw.keepPrunedConnections =
+            snapshot.neighborSelection.keepPrunedConnections;
+        if (snapshot.random) {
+            hnsw.seedRandom(snapshot.random.seed, snapshot.random.state);
+        }
+        hnsw.levelMax = snapshot.levelMax;
+        hnsw.entryPointId = snapshot.entryPointId;
+        hnsw.indexType = snapshot.indexType;
+        hnsw.flatThreshold = snapshot.flatThreshold;
+        hnsw.syncSequence = snapshot.syncSequence;
+        hnsw.tombstones = new Map(snapshot.tombstones);
+        if (snapshot.quantizer) {
+            hnsw.quantizer = parseQuantizer(snapshot.quantizer);
+        }
+        hnsw.nodes = new Map(
+            snapshot.nodes.map((node) => {
+                const astroNode = new AstroNode(
+                    node.uniqueid,
+                    node.codes ? EMPTY_VECTOR : node.vector,
+                    node.level,
+                    snapshot.M,
+                    node.neighbors,
+                    node.deleted,
+                    node.metadata,
+                    node.text
+                );
+                astroNode.codes = node.codes;
+                astroNode.version = node.version;
+                astroNode.updatedAt = node.updatedAt;
+                return [node.uniqueid, astroNode];
             })
         );
         return hnsw;
@@ -1,2 +1,31 @@
 export { HNSW } from './hnsw';
+export type {
+  BatchOperation,
+  HNSWEvents,
+  HNSWEventType,
+  IndexType,
+  NeighborSelection,
+  NodeFilter,
+} from './hnsw';
+export { FlatIndex } from './flat';
+export { EventEmitter } from './events';
+export type {
+  SyncChangeset,
+  SyncDelete,
+  SyncSummary,
+  SyncUpsert,
+  Tombstone,
+} from './sync';
+export type { Listener } from './events';
 export { AstroVault } from './astrovault';
+export type { HybridSearchOptions } from './astrovault';
+export { IndexedDBStorage } from './storage/indexeddb';
+export { MemoryStorage } from './storage/memory';
+// FileSystemStorage depends on Node's fs, import it from './storage/filesystem'
+export type {
+  CollectionChanges,
+  CollectionInfo,
+  StorageAdapter,
+} from './storage/adapter';
+export { registerSimilarity } from './similarity';
+export type { Metric, SimilarityFunction } from './similarity';
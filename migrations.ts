@@ -0,0 +1,196 @@
+import {
+    openDB,
+    deleteDB,
+    DBSchema,
+    IDBPDatabase,
+    IDBPTransaction,
+    StoreNames,
+} from "idb";
+
+/**
+ * Storage schema of AstroVault and its migrations.
+ *
+ * Two versions are tracked:
+ *  - the IndexedDB version, for structural changes (stores, key layout),
+ *    migrated in `upgrade` when the database is opened
+ *  - the format version saved in each collection header, for changes to
+ *    the JSON layout of the records, migrated after load
+ * A format change adds a step at the end of the matching list, the
+ * database name never has to change.
+ */
+
+/**
+ * Every record belongs to a collection, the records of the other stores
+ * are keyed by [collection, key]
+ */
+export interface HNSWDB extends DBSchema {
+    // header record of each collection (entry point, levelMax, config),
+    // keyed by collection name
+    "hnsw-collections": {
+        key: string;
+        value: Record<string, any>;
+    };
+    // snapshots and the legacy whole-graph blob under "hnsw"
+    "hnsw-index": {
+        key: [string, string];
+        value: any;
+    };
+    // one record per node
+    "hnsw-nodes": {
+        key: [string, string];
+        value: Record<string, any>;
+    };
+    // full precision vectors of a quantized index
+    "hnsw-vectors": {
+        key: [string, string];
+        value: Float32Array;
+    };
+}
+
+export const DEFAULT_COLLECTION = "default";
+export const COLLECTION_STORES = [
+    "hnsw-index",
+    "hnsw-nodes",
+    "hnsw-vectors",
+] as const;
+const HEADER_KEY = "header";
+
+type UpgradeTransaction = IDBPTransaction<
+    HNSWDB,
+    StoreNames<HNSWDB>[],
+    "versionchange"
+>;
+
+/**
+ * Structural migrations, step i brings a database from version i to i + 1
+ */
+const upgrades: ((
+    db: IDBPDatabase<HNSWDB>,
+    transaction: UpgradeTransaction
+) => void | Promise<void>)[] = [
+    // 0 -> 1: the whole graph as a single blob
+    (db) => {
+        db.createObjectStore("hnsw-index");
+    },
+    // 1 -> 2: one record per node
+    (db) => {
+        db.createObjectStore("hnsw-nodes");
+    },
+    // 2 -> 3: full precision vectors of quantized indexes
+    (db) => {
+        db.createObjectStore("hnsw-vectors");
+    },
+    // 3 -> 4: named collections
+    async (db, transaction) => {
+        db.createObjectStore("hnsw-collections");
+        await moveToDefaultCollection(transaction);
+    },
+];
+
+export const DB_VERSION = upgrades.length;
+
+/**
+ * Databases from before collections hold a single graph keyed by plain
+ * strings, which becomes the default collection
+ * @param transaction the upgrade transaction
+ */
+async function moveToDefaultCollection(transaction: UpgradeTransaction) {
+    for (const storeName of COLLECTION_STORES) {
+        const store = transaction.objectStore(storeName);
+        let cursor = await store.openCursor();
+        while (cursor) {
+            const key: IDBValidKey = cursor.key;
+            // moved records sort after the strings and get skipped
+            if (typeof key === "string") {
+                if (storeName === "hnsw-index" && key === HEADER_KEY) {
+                    await transaction
+                        .objectStore("hnsw-collections")
+                        .put(cursor.value, DEFAULT_COLLECTION);
+                } else {
+                    await store.put(cursor.value, [DEFAULT_COLLECTION, key]);
+                }
+                await cursor.delete();
+            }
+            cursor = await cursor.continue();
+        }
+    }
+}
+
+/**
+ * Opens a database, running the structural migrations it is missing
+ * @param dbName
+ * @returns
+ */
+export function openVaultDB(dbName: string) {
+    return openDB<HNSWDB>(dbName, DB_VERSION, {
+        async upgrade(db, oldVersion, _newVersion, transaction) {
+            for (let version = oldVersion; version < DB_VERSION; version++) {
+                await upgrades[version](db, transaction);
+            }
+        },
+    });
+}
+
+/**
+ * Whether a database exists, without leaving an empty one behind
+ * @param dbName
+ * @returns
+ */
+export async function databaseExists(dbName: string) {
+    let created = false;
+    const db = await openDB(dbName, undefined, {
+        upgrade() {
+            created = true;
+        },
+    });
+    db.close();
+    if (created) await deleteDB(dbName);
+    return !created;
+}
+
+/**
+ * Format of the records written by this version, saved in the headers.
+ * Records saved before the format was versioned are format 1.
+ */
+export const FORMAT_VERSION = 2;
+
+/**
+ * Record migrations on a collection in the toJSON layout, step i brings
+ * it from format i + 1 to i + 2
+ */
+const formatMigrations: ((data: Record<string, any>) => Record<string, any>)[] =
+    [
+        // 1 -> 2: drop the empty ids older versions padded neighbor lists with
+        (data) => ({
+            ...data,
+            nodes: data.nodes.map(([uniqueid, node]: [string, any]) => [
+                uniqueid,
+                {
+                    ...node,
+                    neighbors: (node.neighbors ?? []).map((level: string[]) =>
+                        level.filter((id) => id !== "")
+                    ),
+                },
+            ]),
+        }),
+    ];
+
+/**
+ * Brings a collection loaded from storage to the current format
+ * @param data header and nodes in the toJSON layout
+ * @returns the migrated data, the same object when already current
+ */
+export function migrateFormat(data: Record<string, any>) {
+    const version: number = data.formatVersion ?? 1;
+    if (version > FORMAT_VERSION) {
+        throw new Error(
+            `Index format version ${version} is newer than this version supports`
+        );
+    }
+
+    let migrated = data;
+    for (let step = version; step < FORMAT_VERSION; step++) {
+        migrated = formatMigrations[step - 1](migrated);
+    }
+    return migrated;
+}
@@ -1,3 +1,15 @@
+/**
+ * An item with its precomputed score (e.g. similarity to the query), so
+ * comparisons don't have to recompute it
+ */
+export interface Scored<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Binary heap based priority queue: push and popFirst are O(log n)
+ */
 export class PriorityQueue<T> {
   private items: T[] = [];
 
@@ -11,37 +23,37 @@ export class PriorityQueue<T> {
   constructor(private compare: (a: T, b: T) => number) {}
 
   /**
-   * Adds an item to the queue such that the queue remains sorted (i.e.
-   * highest priority first)
-   * @param item number
+   * Adds an item to the heap
+   * @param item
    */
   push(item: T) {
-    let i = 0;
-    while (i < this.items.length && this.compare(item, this.items[i]) > 0) {
-      i++;
-    }
-    this.items.splice(i, 0, item);
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
   }
 
+  /**
+   * Removes and returns the item with the highest priority
+   */
   popFirst(): T | undefined {
-    return this.items.shift();
-  }
-
-  popLast(): T | undefined {
-    return this.items.pop();
+    if (this.items.length === 0) return undefined;
+    const first = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return first;
   }
 
   peek(): T | undefined {
     return this.items[0];
   }
 
-  // TODO: if empty, what happens?
-  getLast(): T | undefined {
-    return this.items[this.items.length - 1];
-  }
-
+  /**
+   * @returns a copy of the items, highest priority first
+   */
   toArray(): T[] {
-    return this.items;
+    return [...this.items].sort(this.compare);
   }
 
   isEmpty(): boolean {
@@ -51,4 +63,86 @@ export class PriorityQueue<T> {
   size(): number {
     return this.items.length;
   }
+
+  private siftUp(index: number) {
+    const item = this.items[index];
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(item, this.items[parent]) >= 0) break;
+      this.items[index] = this.items[parent];
+      index = parent;
+    }
+    this.items[index] = item;
+  }
+
+  private siftDown(index: number) {
+    const length = this.items.length;
+    const item = this.items[index];
+    while (true) {
+      const left = 2 * index + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child =
+        right < length && this.compare(this.items[right], this.items[left]) < 0
+          ? right
+          : left;
+      if (this.compare(this.items[child], item) >= 0) break;
+      this.items[index] = this.items[child];
+      index = child;
+    }
+    this.items[index] = item;
+  }
+}
+
+/**
+ * Keeps the `capacity` items with the highest scores. Backed by a min-heap
+ * so the worst kept score is known in O(1) and replacing it is O(log n)
+ */
+export class TopK<T> {
+  private heap = new PriorityQueue<Scored<T>>((a, b) => a.score - b.score);
+
+  constructor(private capacity: number) {}
+
+  /**
+   * Adds the item if there is room or if it beats the worst kept item
+   * @param item
+   * @param score
+   * @returns whether the item was kept
+   */
+  push(item: T, score: number): boolean {
+    if (this.heap.size() < this.capacity) {
+      this.heap.push({ item, score });
+      return true;
+    }
+    if (this.capacity === 0 || score <= this.heap.peek()!.score) return false;
+    this.heap.popFirst();
+    this.heap.push({ item, score });
+    return true;
+  }
+
+  /**
+   * @returns the lowest kept score, -Infinity when empty
+   */
+  worstScore(): number {
+    return this.heap.peek()?.score ?? -Infinity;
+  }
+
+  isFull(): boolean {
+    return this.heap.size() >= this.capacity;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.isEmpty();
+  }
+
+  size(): number {
+    return this.heap.size();
+  }
+
+  /**
+   * @returns the kept items, highest score first
+   */
+  toArray(): Scored<T>[] {
+    return this.heap.toArray().reverse();
+  }
 }
@@ -0,0 +1,473 @@
+/**
+ * Compresses vectors into small codes. Nodes of a quantized index only keep
+ * their codes in memory, similarities are computed on the decoded vectors
+ * (or with precomputed tables when the quantizer supports it).
+ */
+export interface Quantizer {
+    type: string;
+    dimension: number; // dimension of the vectors
+    codeLength: number; // number of bytes per vector
+    encode(vector: Float32Array | number[]): Int8Array | Uint8Array;
+    decode(codes: Int8Array | Uint8Array, out?: Float32Array): Float32Array;
+    /**
+     * Converts stored codes (e.g. a plain array from JSON) back to codes
+     */
+    codesFrom(values: ArrayLike<number>): Int8Array | Uint8Array;
+    /**
+     * Trains a new quantizer with the same parameters on other vectors
+     * @param vectors
+     * @param random for quantizers trained at random, Math.random if not
+     * given
+     */
+    retrain(
+        vectors: (Float32Array | number[])[],
+        random?: () => number
+    ): Quantizer;
+    /**
+     * Precomputes what's needed to compare a query to many codes, returns
+     * null if the metric isn't supported
+     */
+    similarityTable?(
+        query: Float32Array | number[],
+        metric: string
+    ): ((codes: Int8Array | Uint8Array) => number) | null;
+    toJSON(): Record<string, any>;
+}
+
+/**
+ * @param json output of a quantizer's toJSON
+ * @returns
+ */
+export function parseQuantizer(json: Record<string, any>): Quantizer {
+    if (json.type === "pq") return ProductQuantizer.fromJSON(json);
+    return ScalarQuantizer.fromJSON(json);
+}
+
+/**
+ * Int8 scalar quantizer with a per-dimension offset and scale trained from
+ * the data, so each float is stored in a single byte (4x smaller).
+ * code = round((x - offset) / scale) - 128
+ */
+export class ScalarQuantizer implements Quantizer {
+    type = "int8";
+    offsets: Float32Array;
+    scales: Float32Array;
+
+    constructor(offsets: Float32Array, scales: Float32Array) {
+        this.offsets = offsets;
+        this.scales = scales;
+    }
+
+    /**
+     * Trains the quantizer on the min / max of each dimension
+     * @param vectors sample of vectors, all of the same dimension
+     * @returns
+     */
+    static train(vectors: (Float32Array | number[])[]): ScalarQuantizer {
+        if (vectors.length === 0) {
+            throw new Error("Cannot train a quantizer without vectors");
+        }
+        const d = vectors[0].length;
+        const min = new Float32Array(d).fill(Infinity);
+        const max = new Float32Array(d).fill(-Infinity);
+
+        for (const vector of vectors) {
+            if (vector.length !== d) {
+                throw new Error("All vectors must be of the same dimension");
+            }
+            for (let i = 0; i < d; i++) {
+                if (vector[i] < min[i]) min[i] = vector[i];
+                if (vector[i] > max[i]) max[i] = vector[i];
+            }
+        }
+
+        const scales = new Float32Array(d);
+        for (let i = 0; i < d; i++) {
+            // constant dimensions still need a non-zero scale
+            scales[i] = max[i] > min[i] ? (max[i] - min[i]) / 255 : 1;
+        }
+        return new ScalarQuantizer(min, scales);
+    }
+
+    get dimension() {
+        return this.offsets.length;
+    }
+
+    get codeLength() {
+        return this.offsets.length;
+    }
+
+    retrain(vectors: (Float32Array | number[])[]) {
+        return ScalarQuantizer.train(vectors);
+    }
+
+    codesFrom(values: ArrayLike<number>) {
+        return Int8Array.from(values);
+    }
+
+    /**
+     * Values outside of the trained range are clamped
+     * @param vector
+     * @returns
+     */
+    encode(vector: Float32Array | number[]): Int8Array {
+        if (vector.length !== this.dimension) {
+            throw new Error("All vectors must be of the same dimension");
+        }
+        const codes = new Int8Array(this.dimension);
+        for (let i = 0; i < this.dimension; i++) {
+            const code = Math.round(
+                (vector[i] - this.offsets[i]) / this.scales[i]
+            );
+            codes[i] = Math.min(255, Math.max(0, code)) - 128;
+        }
+        return codes;
+    }
+
+    /**
+     * @param codes
+     * @param out optional buffer to decode into, avoids allocating
+     * @returns
+     */
+    decode(
+        codes: Int8Array | Uint8Array,
+        out: Float32Array = new Float32Array(this.dimension)
+    ): Float32Array {
+        for (let i = 0; i < this.dimension; i++) {
+            out[i] = (codes[i] + 128) * this.scales[i] + this.offsets[i];
+        }
+        return out;
+    }
+
+    toJSON(): Record<string, any> {
+        return {
+            type: "int8",
+            offsets: Array.from(this.offsets),
+            scales: Array.from(this.scales),
+        };
+    }
+
+    static fromJSON(json: Record<string, any>): ScalarQuantizer {
+        return new ScalarQuantizer(
+            new Float32Array(json.offsets),
+            new Float32Array(json.scales)
+        );
+    }
+}
+
+/**
+ * Product quantizer: the vector is split into `subspaces` chunks and each
+ * chunk is replaced by the index of its closest centroid, learned with
+ * k-means on that sub-space. A 768-d vector with 96 subspaces takes 96 bytes.
+ */
+export class ProductQuantizer implements Quantizer {
+    type = "pq";
+    dimension: number;
+    subspaces: number;
+    centroidCount: number; // centroids per sub-space, at most 256
+    centroids: Float32Array; // subspaces * centroidCount * subDimension
+    // centroids per sub-space asked for, more than centroidCount when the
+    // sample was smaller; retrain uses it so a grown index gets them all
+    requestedCentroidCount: number;
+
+    constructor(
+        dimension: number,
+        subspaces: number,
+        centroidCount: number,
+        centroids: Float32Array,
+        requestedCentroidCount = centroidCount
+    ) {
+        this.dimension = dimension;
+        this.subspaces = subspaces;
+        this.centroidCount = centroidCount;
+        this.centroids = centroids;
+        this.requestedCentroidCount = requestedCentroidCount;
+    }
+
+    get subDimension() {
+        return this.dimension / this.subspaces;
+    }
+
+    get codeLength() {
+        return this.subspaces;
+    }
+
+    /**
+     * Runs k-means on each sub-space of the vectors
+     * @param vectors sample of vectors, all of the same dimension
+     * @param subspaces must divide the dimension
+     * @param centroidCount centroids per sub-space (capped by the sample size)
+     * @param iterations k-means iterations
+     * @param random picks the initial centroids, e.g. a seeded generator to
+     * get the same codebooks for the same vectors
+     * @returns
+     */
+    static train(
+        vectors: (Float32Array | number[])[],
+        subspaces = 8,
+        centroidCount = 256,
+        iterations = 10,
+        random: () => number = Math.random
+    ): ProductQuantizer {
+        if (vectors.length === 0) {
+            throw new Error("Cannot train a quantizer without vectors");
+        }
+        const dimension = vectors[0].length;
+        if (dimension % subspaces !== 0) {
+            throw new Error(
+                `The dimension ${dimension} is not divisible by ${subspaces} subspaces`
+            );
+        }
+        if (vectors.some((vector) => vector.length !== dimension)) {
+            throw new Error("All vectors must be of the same dimension");
+        }
+
+        const k = Math.min(centroidCount, 256, vectors.length);
+        const subDimension = dimension / subspaces;
+        const centroids = new Float32Array(subspaces * k * subDimension);
+
+        for (let m = 0; m < subspaces; m++) {
+            const start = m * subDimension;
+            const subVectors = vectors.map((vector) =>
+                Float32Array.from(
+                    { length: subDimension },
+                    (_, i) => vector[start + i]
+                )
+            );
+            centroids.set(
+                kmeans(subVectors, k, iterations, random),
+                m * k * subDimension
+            );
+        }
+
+        return new ProductQuantizer(
+            dimension,
+            subspaces,
+            k,
+            centroids,
+            Math.min(centroidCount, 256)
+        );
+    }
+
+    retrain(vectors: (Float32Array | number[])[], random?: () => number) {
+        return ProductQuantizer.train(
+            vectors,
+            this.subspaces,
+            this.requestedCentroidCount,
+            undefined,
+            random
+        );
+    }
+
+    encode(vector: Float32Array | number[]): Uint8Array {
+        if (vector.length !== this.dimension) {
+            throw new Error("All vectors must be of the same dimension");
+        }
+        const subDimension = this.subDimension;
+        const codes = new Uint8Array(this.subspaces);
+
+        for (let m = 0; m < this.subspaces; m++) {
+            let best = 0;
+            let bestDistance = Infinity;
+            for (let c = 0; c < this.centroidCount; c++) {
+                const offset = (m * this.centroidCount + c) * subDimension;
+                let distance = 0;
+                for (let i = 0; i < subDimension; i++) {
+                    const diff =
+                        vector[m * subDimension + i] - this.centroids[offset + i];
+                    distance += diff * diff;
+                }
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    best = c;
+                }
+            }
+            codes[m] = best;
+        }
+        return codes;
+    }
+
+    decode(
+        codes: Int8Array | Uint8Array,
+        out: Float32Array = new Float32Array(this.dimension)
+    ): Float32Array {
+        const subDimension = this.subDimension;
+        for (let m = 0; m < this.subspaces; m++) {
+            const offset =
+                (m * this.centroidCount + (codes[m] & 0xff)) * subDimension;
+            for (let i = 0; i < subDimension; i++) {
+                out[m * subDimension + i] = this.centroids[offset + i];
+            }
+        }
+        return out;
+    }
+
+    codesFrom(values: ArrayLike<number>) {
+        return Uint8Array.from(values);
+    }
+
+    /**
+     * Asymmetric distance computation: the query is compared to every
+     * centroid once, then the similarity to a code is a sum of table lookups
+     * @param query
+     * @param metric
+     * @returns
+     */
+    similarityTable(query: Float32Array | number[], metric: string) {
+        if (
+            metric !== "cosine" &&
+            metric !== "euclidean" &&
+            metric !== "innerProduct" &&
+            metric !== "manhattan"
+        ) {
+            return null;
+        }
+
+        const subDimension = this.subDimension;
+        const k = this.centroidCount;
+        // dot products with the query for cosine and inner product, squared
+        // distances for euclidean and absolute distances for manhattan
+        const table = new Float32Array(this.subspaces * k);
+        // squared norm of each centroid, for the norm of the decoded vector
+        const norms = new Float32Array(this.subspaces * k);
+        let queryNorm = 0;
+        for (let i = 0; i < query.length; i++) queryNorm += query[i] * query[i];
+        queryNorm = Math.sqrt(queryNorm);
+
+        for (let m = 0; m < this.subspaces; m++) {
+            for (let c = 0; c < k; c++) {
+                const offset = (m * k + c) * subDimension;
+                let value = 0;
+                let norm = 0;
+                for (let i = 0; i < subDimension; i++) {
+                    const q = query[m * subDimension + i];
+                    const x = this.centroids[offset + i];
+                    if (metric === "euclidean") {
+                        value += (q - x) * (q - x);
+                    } else if (metric === "manhattan") {
+                        value += Math.abs(q - x);
+                    } else {
+                        value += q * x;
+                    }
+                    norm += x * x;
+                }
+                table[m * k + c] = value;
+                norms[m * k + c] = norm;
+            }
+        }
+
+        const sumTable = (codes: Int8Array | Uint8Array) => {
+            let sum = 0;
+            for (let m = 0; m < this.subspaces; m++) {
+                sum += table[m * k + (codes[m] & 0xff)];
+            }
+            return sum;
+        };
+        if (metric === "euclidean") {
+            return (codes: Int8Array | Uint8Array) =>
+                1 / (1 + Math.sqrt(sumTable(codes)));
+        }
+        if (metric === "manhattan") {
+            return (codes: Int8Array | Uint8Array) =>
+                1 / (1 + sumTable(codes));
+        }
+        if (metric === "innerProduct") return sumTable;
+        return (codes: Int8Array | Uint8Array) => {
+            let dot = 0;
+            let norm = 0;
+            for (let m = 0; m < this.subspaces; m++) {
+                dot += table[m * k + (codes[m] & 0xff)];
+                norm += norms[m * k + (codes[m] & 0xff)];
+            }
+            return dot / (queryNorm * Math.sqrt(norm));
+        };
+    }
+
+    toJSON(): Record<string, any> {
+        return {
+            type: "pq",
+            dimension: this.dimension,
+            subspaces: this.subspaces,
+            centroidCount: this.centroidCount,
+            requestedCentroidCount: this.requestedCentroidCount,
+            centroids: Array.from(this.centroids),
+        };
+    }
+
+    static fromJSON(json: Record<string, any>): ProductQuantizer {
+        return new ProductQuantizer(
+            json.dimension,
+            json.subspaces,
+            json.centroidCount,
+            new Float32Array(json.centroids),
+            // quantizers saved before it was kept
+            json.requestedCentroidCount ?? json.centroidCount
+        );
+    }
+}
+
+/**
+ * Lloyd's k-means, initialized with distinct random points
+ * @param points
+ * @param k
+ * @param iterations
+ * @param random
+ * @returns the k centroids packed one after the other
+ */
+function kmeans(
+    points: Float32Array[],
+    k: number,
+    iterations: number,
+    random: () => number
+) {
+    const d = points[0].length;
+    const centroids = new Float32Array(k * d);
+    const shuffled = points
+        .map((point) => ({ point, key: random() }))
+        .sort((a, b) => a.key - b.key);
+    for (let c = 0; c < k; c++) centroids.set(shuffled[c].point, c * d);
+
+    const assignments = new Int32Array(points.length);
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        // assign every point to its closest centroid
+        points.forEach((point, p) => {
+            let best = 0;
+            let bestDistance = Infinity;
+            for (let c = 0; c < k; c++) {
+                let distance = 0;
+                for (let i = 0; i < d; i++) {
+                    const diff = point[i] - centroids[c * d + i];
+                    distance += diff * diff;
+                }
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    best = c;
+                }
+            }
+            assignments[p] = best;
+        });
+
+        // move every centroid to the mean of its points
+        const sums = new Float32Array(k * d);
+        const counts = new Int32Array(k);
+        points.forEach((point, p) => {
+            const c = assignments[p];
+            counts[c]++;
+            for (let i = 0; i < d; i++) sums[c * d + i] += point[i];
+        });
+        for (let c = 0; c < k; c++) {
+            if (counts[c] === 0) {
+                // empty cluster, restart it on a random point
+                centroids.set(
+                    points[Math.floor(random() * points.length)],
+                    c * d
+                );
+                continue;
+            }
+            for (let i = 0; i < d; i++) {
+                centroids[c * d + i] = sums[c * d + i] / counts[c];
+            }
+        }
+    }
+    return centroids;
+}
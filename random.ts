@@ -0,0 +1,23 @@
+/**
+ * Small seedable random number generator (mulberry32). Its whole state is
+ * one 32 bit integer, so it can be saved with an index and resumed where it
+ * left off.
+ */
+export class SeededRandom {
+    state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * @returns a number in [0, 1), like Math.random
+     */
+    next = () => {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -1,3 +1,16 @@
+export type SimilarityFunction = (
+  a: Float32Array | number[],
+  b: Float32Array | number[],
+) => number;
+
+export type Metric =
+  | "cosine"
+  | "euclidean"
+  | "innerProduct"
+  | "manhattan"
+  | "hamming"
+  | (string & {}); // custom metrics added with registerSimilarity
+
 // Note: Similarity functions
 function dotProduct(
   a: Float32Array | number[],
@@ -39,3 +52,80 @@ export function euclideanSimilarity(
 ): number {
   return 1 / (1 + euclideanDistance(a, b));
 }
+
+/**
+ * Plain dot product, for vectors whose norm carries meaning
+ * (equivalent to cosine on normalized vectors)
+ */
+export function innerProductSimilarity(
+  a: Float32Array | number[],
+  b: Float32Array | number[],
+): number {
+  return dotProduct(a, b);
+}
+
+function manhattanDistance(
+  a: Float32Array | number[],
+  b: Float32Array | number[],
+): number {
+  let sum = 0.0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum;
+}
+
+export function manhattanSimilarity(
+  a: Float32Array | number[],
+  b: Float32Array | number[],
+): number {
+  return 1 / (1 + manhattanDistance(a, b));
+}
+
+/**
+ * For binary vectors (e.g. 0/1 per dimension): the fraction of dimensions
+ * where both vectors have the same value, from 0 to 1
+ */
+export function hammingSimilarity(
+  a: Float32Array | number[],
+  b: Float32Array | number[],
+): number {
+  if (a.length === 0) return 1;
+  let differences = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) differences++;
+  }
+  return 1 - differences / a.length;
+}
+
+const similarityFunctions = new Map<string, SimilarityFunction>([
+  ["cosine", cosineSimilarity],
+  ["euclidean", euclideanSimilarity],
+  ["innerProduct", innerProductSimilarity],
+  ["manhattan", manhattanSimilarity],
+  ["hamming", hammingSimilarity],
+]);
+
+/**
+ * Registers a custom similarity under a name usable as the metric of an
+ * index. Higher means more similar. It must be registered before creating or
+ * loading an index that uses it, in every context that does (e.g. the worker)
+ * @param name
+ * @param similarityFunction
+ */
+export function registerSimilarity(
+  name: string,
+  similarityFunction: SimilarityFunction,
+) {
+  similarityFunctions.set(name, similarityFunction);
+}
+
+export function getSimilarityFunction(metric: Metric): SimilarityFunction {
+  const similarityFunction = similarityFunctions.get(metric);
+  if (!similarityFunction) {
+    throw new Error(
+      `Invalid metric "${metric}", custom metrics must be registered with registerSimilarity`,
+    );
+  }
+  return similarityFunction;
+}
@@ -0,0 +1,291 @@
+import type { HNSW, IndexType, NeighborSelection } from "./hnsw";
+import { parseQuantizer } from "./quantization";
+import type { Tombstone } from "./sync";
+
+/**
+ * Compact binary snapshot of an HNSW index.
+ *
+ * Layout (little endian):
+ *  - header: magic "ASTV", u16 version, u16 metric byte length, u32 M,
+ *    u32 efConstruction, u32 dimension, i32 levelMax, i32 entry point index,
+ *    u32 node count, followed by the metric name in UTF-8
+ *  - u32 byte length + UTF-8 JSON with the node ids, their metadata and
+ *    text, the quantizer parameters if the index is quantized, the index
+ *    type and flatThreshold of flat indexes, the neighbor selection, the
+ *    seed and state of the level assignment if it is seeded, and the sync
+ *    stamps of the nodes and tombstones if any
+ *  - u8 level and u8 flags (bit 0 = deleted) per node
+ *  - packed Float32 vectors, nodeCount * dimension, or packed codes when
+ *    the index is quantized, nodeCount * code length bytes (version 2)
+ *  - u32 length + u32 stream of neighbor indexes, for each node:
+ *    number of levels, then for each level the count followed by the indexes
+ */
+const MAGIC = 0x56545341; // "ASTV"
+export const SNAPSHOT_VERSION = 2;
+const HEADER_SIZE = 32;
+const FLAG_DELETED = 1;
+
+export interface SnapshotNode {
+    uniqueid: string;
+    level: number;
+    deleted: boolean;
+    vector: Float32Array;
+    codes?: Int8Array | Uint8Array;
+    neighbors: string[][];
+    metadata?: Record<string, any>;
+    text?: string;
+    version?: number;
+    updatedAt?: number;
+}
+
+export interface Snapshot {
+    version: number;
+    metric: string;
+    M: number;
+    efConstruction: number;
+    d: number | null;
+    levelMax: number;
+    entryPointId: string;
+    quantizer?: Record<string, any>;
+    indexType: IndexType;
+    flatThreshold: number | null;
+    neighborSelection: {
+        strategy: NeighborSelection;
+        extendCandidates: boolean;
+        keepPrunedConnections: boolean;
+    };
+    random?: { seed: number; state: number };
+    syncSequence: number;
+    tombstones: [string, Tombstone][];
+    nodes: SnapshotNode[];
+}
+
+const align4 = (offset: number) => (offset + 3) & ~3;
+
+export function writeSnapshot(hnsw: HNSW): ArrayBuffer {
+    const nodes = Array.from(hnsw.nodes.values());
+    const quantizer = hnsw.quantizer;
+    const d =
+        quantizer?.dimension ??
+        hnsw.d ??
+        (nodes.length > 0 ? nodes[0].vector.length : 0);
+    // quantized indexes store codeLength bytes per node instead of 4 * d
+    const valuesPerNode = quantizer ? quantizer.codeLength : d;
+    const bytesPerValue = quantizer ? 1 : 4;
+    const indexes = new Map<string, number>();
+    nodes.forEach((node, i) => indexes.set(node.uniqueid, i));
+
+    const encoder = new TextEncoder();
+    const metricBytes = encoder.encode(hnsw.metric);
+    const hasMetadata = nodes.some((node) => node.metadata !== undefined);
+    const hasText = nodes.some((node) => node.text !== undefined);
+    const hasStamps =
+        hnsw.syncSequence > 0 ||
+        nodes.some((node) => node.updatedAt !== undefined);
+    const stringBytes = encoder.encode(
+        JSON.stringify({
+            ids: nodes.map((node) => node.uniqueid),
+            metadata: hasMetadata
+                ? nodes.map((node) => node.metadata ?? null)
+                : undefined,
+            texts: hasText ? nodes.map((node) => node.text ?? null) : undefined,
+            quantizer: quantizer ? quantizer.toJSON() : undefined,
+            flat:
+                hnsw.indexType === "flat"
+                    ? { flatThreshold: hnsw.flatThreshold }
+                    : undefined,
+            neighborSelection: {
+                strategy: hnsw.neighborSelection,
+                extendCandidates: hnsw.extendCandidates,
+                keepPrunedConnections: hnsw.keepPrunedConnections,
+            },
+            random: hnsw.randomState(),
+            sync: hasStamps
+                ? {
+                      sequence: hnsw.syncSequence,
+                      versions: nodes.map((node) => node.version ?? null),
+                      updatedAt: nodes.map((node) => node.updatedAt ?? null),
+                      tombstones: Array.from(hnsw.tombstones),
+                  }
+                : undefined,
+        })
+    );
+
+    // Links to nodes that no longer exist are dropped
+    const neighborStream: number[] = [];
+    for (const node of nodes) {
+        neighborStream.push(node.neighbors.length);
+        for (const level of node.neighbors) {
+            const levelIndexes = level
+                .filter((id) => indexes.has(id))
+                .map((id) => indexes.get(id)!);
+            neighborStream.push(levelIndexes.length, ...levelIndexes);
+        }
+    }
+
+    const stringsOffset = HEADER_SIZE + metricBytes.length;
+    const nodeInfoOffset = align4(stringsOffset + 4 + stringBytes.length);
+    const vectorsOffset = align4(nodeInfoOffset + nodes.length * 2);
+    const neighborsOffset = align4(
+        vectorsOffset + nodes.length * valuesPerNode * bytesPerValue
+    );
+    const byteLength = neighborsOffset + 4 + neighborStream.length * 4;
+
+    const buffer = new ArrayBuffer(byteLength);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    view.setUint32(0, MAGIC, true);
+    view.setUint16(4, SNAPSHOT_VERSION, true);
+    view.setUint16(6, metricBytes.length, true);
+    view.setUint32(8, hnsw.M, true);
+    view.setUint32(12, hnsw.efConstruction, true);
+    view.setUint32(16, d, true);
+    view.setInt32(20, hnsw.levelMax, true);
+    view.setInt32(24, indexes.get(hnsw.entryPointId) ?? -1, true);
+    view.setUint32(28, nodes.length, true);
+    bytes.set(metricBytes, HEADER_SIZE);
+
+    view.setUint32(stringsOffset, stringBytes.length, true);
+    bytes.set(stringBytes, stringsOffset + 4);
+
+    const vectors = quantizer
+        ? new Uint8Array(buffer, vectorsOffset, nodes.length * valuesPerNode)
+        : new Float32Array(buffer, vectorsOffset, nodes.length * valuesPerNode);
+    nodes.forEach((node, i) => {
+        const values = quantizer ? node.codes : node.vector;
+        if (!values || values.length !== valuesPerNode) {
+            throw new Error("All vectors must be of the same dimension");
+        }
+        bytes[nodeInfoOffset + i] = node.level;
+        bytes[nodeInfoOffset + nodes.length + i] = node.deleted
+            ? FLAG_DELETED
+            : 0;
+        vectors.set(values, i * valuesPerNode);
+    });
+
+    view.setUint32(neighborsOffset, neighborStream.length, true);
+    new Uint32Array(buffer, neighborsOffset + 4, neighborStream.length).set(
+        neighborStream
+    );
+
+    return buffer;
+}
+
+export function readSnapshot(buffer: ArrayBuffer): Snapshot {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < HEADER_SIZE || view.getUint32(0, true) !== MAGIC) {
+        throw new Error("Not an HNSW snapshot");
+    }
+    const version = view.getUint16(4, true);
+    if (version > SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${version}`);
+    }
+
+    const decoder = new TextDecoder();
+    const metricLength = view.getUint16(6, true);
+    const d = view.getUint32(16, true);
+    const entryPointIndex = view.getInt32(24, true);
+    const nodeCount = view.getUint32(28, true);
+    const metric = decoder.decode(
+        new Uint8Array(buffer, HEADER_SIZE, metricLength)
+    );
+
+    const stringsOffset = HEADER_SIZE + metricLength;
+    const stringsLength = view.getUint32(stringsOffset, true);
+    const { ids, metadata, texts, quantizer, ...config } = JSON.parse(
+        decoder.decode(
+            new Uint8Array(buffer, stringsOffset + 4, stringsLength)
+        )
+    ) as {
+        ids: string[];
+        metadata?: (Record<string, any> | null)[];
+        texts?: (string | null)[];
+        quantizer?: Record<string, any>;
+        flat?: { flatThreshold: number | null };
+        neighborSelection?: Snapshot["neighborSelection"];
+        random?: Snapshot["random"];
+        sync?: {
+            sequence: number;
+            versions: (number | null)[];
+            updatedAt: (number | null)[];
+            tombstones: [string, Tombstone][];
+        };
+    };
+    const codeQuantizer = quantizer ? parseQuantizer(quantizer) : null;
+    const valuesPerNode = codeQuantizer ? codeQuantizer.codeLength : d;
+    const bytesPerValue = codeQuantizer ? 1 : 4;
+
+    const nodeInfoOffset = align4(stringsOffset + 4 + stringsLength);
+    const vectorsOffset = align4(nodeInfoOffset + nodeCount * 2);
+    const neighborsOffset = align4(
+        vectorsOffset + nodeCount * valuesPerNode * bytesPerValue
+    );
+    const bytes = new Uint8Array(buffer);
+    const neighborStream = new Uint32Array(
+        buffer,
+        neighborsOffset + 4,
+        view.getUint32(neighborsOffset, true)
+    );
+
+    const nodes: SnapshotNode[] = [];
+    let cursor = 0;
+    for (let i = 0; i < nodeCount; i++) {
+        const neighbors: string[][] = [];
+        const levelCount = neighborStream[cursor++];
+        for (let level = 0; level < levelCount; level++) {
+            const count = neighborStream[cursor++];
+            const levelIds: string[] = new Array(count);
+            for (let j = 0; j < count; j++) {
+                levelIds[j] = ids[neighborStream[cursor++]];
+            }
+            neighbors.push(levelIds);
+        }
+
+        // copy so the node doesn't keep the whole snapshot buffer alive
+        const values = buffer.slice(
+            vectorsOffset + i * valuesPerNode * bytesPerValue,
+            vectorsOffset + (i + 1) * valuesPerNode * bytesPerValue
+        );
+
+        nodes.push({
+            uniqueid: ids[i],
+            level: bytes[nodeInfoOffset + i],
+            deleted: (bytes[nodeInfoOffset + nodeCount + i] & FLAG_DELETED) !== 0,
+            vector: codeQuantizer
+                ? new Float32Array(0)
+                : new Float32Array(values),
+            codes: codeQuantizer
+                ? codeQuantizer.codesFrom(new Uint8Array(values))
+                : undefined,
+            neighbors,
+            metadata: metadata?.[i] ?? undefined,
+            text: texts?.[i] ?? undefined,
+            version: config.sync?.versions[i] ?? undefined,
+            updatedAt: config.sync?.updatedAt[i] ?? undefined,
+        });
+    }
+
+    return {
+        version,
+        metric,
+        M: view.getUint32(8, true),
+        efConstruction: view.getUint32(12, true),
+        d: nodeCount > 0 || d > 0 ? d : null,
+        levelMax: view.getInt32(20, true),
+        entryPointId: entryPointIndex >= 0 ? ids[entryPointIndex] : "",
+        quantizer,
+        indexType: config.flat ? "flat" : "hnsw",
+        flatThreshold: config.flat?.flatThreshold ?? null,
+        // snapshots written before the heuristic existed
+        neighborSelection: config.neighborSelection ?? {
+            strategy: "simple",
+            extendCandidates: false,
+            keepPrunedConnections: false,
+        },
+        random: config.random,
+        syncSequence: config.sync?.sequence ?? 0,
+        tombstones: config.sync?.tombstones ?? [],
+        nodes,
+    };
+}
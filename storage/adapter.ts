@@ -0,0 +1,117 @@
+import { Metric } from "../similarity";
+import type { IndexType } from "../hnsw";
+
+/**
+ * Where AstroVault persists its collections. A storage holds several
+ * collections, each saved as a header (config, entry point, levelMax,
+ * format version), one record per node in the toJSON layout, and the full
+ * precision vectors of quantized indexes.
+ */
+export interface StorageAdapter {
+    /**
+     * @param collection
+     * @returns the collection in the toJSON layout, undefined if it was
+     * never saved
+     */
+    loadCollection(
+        collection: string
+    ): Promise<Record<string, any> | undefined>;
+
+    /**
+     * Applies the changes of a collection atomically
+     * @param collection
+     * @param changes
+     */
+    saveCollection(
+        collection: string,
+        changes: CollectionChanges
+    ): Promise<void>;
+
+    getVector(
+        collection: string,
+        uniqueid: string
+    ): Promise<Float32Array | undefined>;
+
+    /**
+     * Calls back with every full precision vector of the collection
+     * @param collection
+     * @param callback
+     */
+    forEachVector(
+        collection: string,
+        callback: (uniqueid: string, vector: Float32Array) => void
+    ): Promise<void>;
+
+    saveSnapshot(
+        collection: string,
+        key: string,
+        snapshot: ArrayBuffer
+    ): Promise<void>;
+
+    loadSnapshot(
+        collection: string,
+        key: string
+    ): Promise<ArrayBuffer | undefined>;
+
+    listCollections(): Promise<CollectionInfo[]>;
+
+    /**
+     * Deletes a collection and everything saved with it
+     * @param collection
+     */
+    dropCollection(collection: string): Promise<void>;
+
+    /**
+     * Moves everything saved with a collection to a new name
+     * @param from
+     * @param to
+     */
+    renameCollection(from: string, to: string): Promise<void>;
+}
+
+/**
+ * What changed in a collection since its last save
+ */
+export interface CollectionChanges {
+    header: Record<string, any>;
+    // when set, nodes holds every node and the others are removed, as are
+    // the vectors of the removed nodes
+    full: boolean;
+    // node records by uniqueid, null for the nodes removed from the graph
+    nodes: Map<string, Record<string, any> | null>;
+    // new full precision vectors of a quantized index
+    vectors: Map<string, Float32Array>;
+}
+
+export interface CollectionInfo {
+    name: string;
+    M: number;
+    efConstruction: number;
+    metric: Metric;
+    d: number | null;
+    indexType: IndexType;
+    // number of nodes, deleted ones included
+    size: number;
+}
+
+/**
+ * @param name
+ * @param header
+ * @param size
+ * @returns the info of a collection from its header
+ */
+export function collectionInfo(
+    name: string,
+    header: Record<string, any>,
+    size: number
+): CollectionInfo {
+    return {
+        name,
+        M: header.M,
+        efConstruction: header.efConstruction,
+        metric: header.metric ?? "cosine",
+        d: header.d ?? null,
+        indexType: header.indexType ?? "hnsw",
+        size,
+    };
+}
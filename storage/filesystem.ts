@@ -0,0 +1,296 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+    CollectionChanges,
+    CollectionInfo,
+    StorageAdapter,
+    collectionInfo,
+} from "./adapter";
+
+const INDEX_FILE = "index.json";
+const VECTORS_FILE = "vectors.json";
+const SNAPSHOTS_DIRECTORY = "snapshots";
+
+interface CachedCollection {
+    header?: Record<string, any>;
+    // serialized node records, so a save only stringifies the changed ones
+    nodes: Map<string, string>;
+    vectors: Map<string, Float32Array>;
+}
+
+/**
+ * File or directory name for a collection or snapshot key, "." and ".."
+ * included
+ * @param name
+ * @returns
+ */
+const fileName = (name: string) =>
+    encodeURIComponent(name).replace(/\./g, "%2E");
+
+async function readJSON(file: string) {
+    try {
+        return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (error: any) {
+        if (error.code === "ENOENT") return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Writes to a temporary file next to the target then renames it over the
+ * target, so readers see either the old or the new content, never a
+ * partial write
+ * @param file
+ * @param data
+ */
+async function writeFileAtomic(file: string, data: string | Uint8Array) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    try {
+        await fs.writeFile(temporary, data);
+        await fs.rename(temporary, file);
+    } catch (error) {
+        await fs.rm(temporary, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Saves each collection in its own directory under a root directory, for
+ * Node, Electron's main process or a CLI:
+ *  - index.json with the header and the node records
+ *  - vectors.json with the full precision vectors of a quantized index
+ *  - snapshots/<key>.bin
+ * Collections are cached in memory once read, and every save rewrites
+ * their files atomically. Vectors are written before the index so the
+ * index never refers to vectors that aren't on disk.
+ */
+export class FileSystemStorage implements StorageAdapter {
+    directory: string;
+    private cache = new Map<string, CachedCollection>();
+    // file operations run one at a time so saves don't interleave
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private collectionDirectory(collection: string) {
+        return path.join(this.directory, fileName(collection));
+    }
+
+    private async getCollection(collection: string) {
+        let cached = this.cache.get(collection);
+        if (!cached) {
+            const directory = this.collectionDirectory(collection);
+            const index = await readJSON(path.join(directory, INDEX_FILE));
+            const vectors: Record<string, number[]> =
+                (await readJSON(path.join(directory, VECTORS_FILE))) ?? {};
+            cached = {
+                header: index?.header,
+                nodes: new Map(
+                    Object.entries(index?.nodes ?? {}).map(
+                        ([uniqueid, node]) => [uniqueid, JSON.stringify(node)]
+                    )
+                ),
+                vectors: new Map(
+                    Object.entries(vectors).map(([uniqueid, vector]) => [
+                        uniqueid,
+                        new Float32Array(vector),
+                    ])
+                ),
+            };
+            this.cache.set(collection, cached);
+        }
+        return cached;
+    }
+
+    loadCollection(collection: string) {
+        return this.enqueue(async () => {
+            const cached = await this.getCollection(collection);
+            if (!cached.header) return undefined;
+            return {
+                ...cached.header,
+                nodes: Array.from(cached.nodes, ([uniqueid, node]) => [
+                    uniqueid,
+                    JSON.parse(node),
+                ]),
+            };
+        });
+    }
+
+    saveCollection(collection: string, changes: CollectionChanges) {
+        return this.enqueue(async () => {
+            const cached = await this.getCollection(collection);
+            const directory = this.collectionDirectory(collection);
+
+            // changes are applied to copies, the cache stays as it was if
+            // a write fails
+            const nodes = changes.full
+                ? new Map<string, string>()
+                : new Map(cached.nodes);
+            for (const [uniqueid, node] of changes.nodes) {
+                if (node) {
+                    nodes.set(uniqueid, JSON.stringify(node));
+                } else {
+                    nodes.delete(uniqueid);
+                }
+            }
+            const vectors = new Map(cached.vectors);
+            for (const uniqueid of vectors.keys()) {
+                if (!nodes.has(uniqueid)) vectors.delete(uniqueid);
+            }
+            for (const [uniqueid, vector] of changes.vectors) {
+                vectors.set(uniqueid, vector.slice());
+            }
+
+            if (vectors.size > 0 || cached.vectors.size > 0) {
+                await writeFileAtomic(
+                    path.join(directory, VECTORS_FILE),
+                    JSON.stringify(
+                        Object.fromEntries(
+                            Array.from(vectors, ([uniqueid, vector]) => [
+                                uniqueid,
+                                Array.from(vector),
+                            ])
+                        )
+                    )
+                );
+            }
+            const nodeEntries = Array.from(
+                nodes,
+                ([uniqueid, node]) => `${JSON.stringify(uniqueid)}:${node}`
+            );
+            await writeFileAtomic(
+                path.join(directory, INDEX_FILE),
+                `{"header":${JSON.stringify(changes.header)},` +
+                    `"nodes":{${nodeEntries.join(",")}}}`
+            );
+
+            this.cache.set(collection, {
+                header: changes.header,
+                nodes,
+                vectors,
+            });
+        });
+    }
+
+    getVector(collection: string, uniqueid: string) {
+        return this.enqueue(async () =>
+            (await this.getCollection(collection)).vectors
+                .get(uniqueid)
+                ?.slice()
+        );
+    }
+
+    forEachVector(
+        collection: string,
+        callback: (uniqueid: string, vector: Float32Array) => void
+    ) {
+        return this.enqueue(async () => {
+            const { vectors } = await this.getCollection(collection);
+            for (const [uniqueid, vector] of vectors) {
+                callback(uniqueid, vector.slice());
+            }
+        });
+    }
+
+    saveSnapshot(collection: string, key: string, snapshot: ArrayBuffer) {
+        return this.enqueue(() =>
+            writeFileAtomic(
+                path.join(
+                    this.collectionDirectory(collection),
+                    SNAPSHOTS_DIRECTORY,
+                    `${fileName(key)}.bin`
+                ),
+                new Uint8Array(snapshot)
+            )
+        );
+    }
+
+    loadSnapshot(collection: string, key: string) {
+        return this.enqueue(async () => {
+            try {
+                const data = await fs.readFile(
+                    path.join(
+                        this.collectionDirectory(collection),
+                        SNAPSHOTS_DIRECTORY,
+                        `${fileName(key)}.bin`
+                    )
+                );
+                return data.buffer.slice(
+                    data.byteOffset,
+                    data.byteOffset + data.byteLength
+                ) as ArrayBuffer;
+            } catch (error: any) {
+                if (error.code === "ENOENT") return undefined;
+                throw error;
+            }
+        });
+    }
+
+    listCollections() {
+        return this.enqueue(async () => {
+            let entries;
+            try {
+                entries = await fs.readdir(this.directory, {
+                    withFileTypes: true,
+                });
+            } catch (error: any) {
+                if (error.code === "ENOENT") return [];
+                throw error;
+            }
+
+            const infos: CollectionInfo[] = [];
+            for (const entry of entries) {
+                if (!entry.isDirectory()) continue;
+                const name = decodeURIComponent(entry.name);
+                const cached = await this.getCollection(name);
+                if (cached.header) {
+                    infos.push(
+                        collectionInfo(name, cached.header, cached.nodes.size)
+                    );
+                }
+            }
+            return infos;
+        });
+    }
+
+    dropCollection(collection: string) {
+        return this.enqueue(async () => {
+            await fs.rm(this.collectionDirectory(collection), {
+                recursive: true,
+                force: true,
+            });
+            this.cache.delete(collection);
+        });
+    }
+
+    renameCollection(from: string, to: string) {
+        return this.enqueue(async () => {
+            if (!(await this.getCollection(from)).header) {
+                throw new Error(`No collection named ${from}`);
+            }
+            if ((await this.getCollection(to)).header) {
+                throw new Error(`A collection named ${to} already exists`);
+            }
+            // snapshots saved before the collection would be in the way
+            await fs.rm(this.collectionDirectory(to), {
+                recursive: true,
+                force: true,
+            });
+            await fs.rename(
+                this.collectionDirectory(from),
+                this.collectionDirectory(to)
+            );
+            this.cache.set(to, this.cache.get(from)!);
+            this.cache.delete(from);
+        });
+    }
+}
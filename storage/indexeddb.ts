@@ -0,0 +1,281 @@
+import { deleteDB, IDBPDatabase } from "idb";
+import {
+    COLLECTION_STORES,
+    HNSWDB,
+    databaseExists,
+    openVaultDB,
+} from "../migrations";
+import {
+    CollectionChanges,
+    CollectionInfo,
+    StorageAdapter,
+    collectionInfo,
+} from "./adapter";
+
+const LEGACY_KEY = "hnsw";
+
+/**
+ * Range of all the [collection, key] keys of a collection
+ * @param collection
+ * @returns
+ */
+const collectionRange = (collection: string) =>
+    IDBKeyRange.bound([collection], [collection, []]);
+
+/**
+ * Saves the collections in an IndexedDB database, the default storage in
+ * the browser. The schema is in migrations.ts.
+ */
+export class IndexedDBStorage implements StorageAdapter {
+    dbName: string;
+    private db: Promise<IDBPDatabase<HNSWDB>> | null = null;
+
+    constructor(dbName: string) {
+        this.dbName = dbName;
+    }
+
+    /**
+     * Opens the database on first use, running the migrations it needs
+     */
+    private getDB() {
+        if (!this.db) {
+            this.db = openVaultDB(this.dbName).catch((error) => {
+                // retry on the next call
+                this.db = null;
+                throw error;
+            });
+        }
+        return this.db;
+    }
+
+    async loadCollection(collection: string) {
+        const db = await this.getDB();
+        const header = await db.get("hnsw-collections", collection);
+
+        if (header) {
+            const nodes = await db.getAll(
+                "hnsw-nodes",
+                collectionRange(collection)
+            );
+            return {
+                ...header,
+                nodes: nodes.map((node) => [node.uniqueid, node]),
+            };
+        }
+
+        // whole graph saved as a single blob by older versions, rewritten as
+        // per-node records by the next full save
+        return db.get("hnsw-index", [collection, LEGACY_KEY]);
+    }
+
+    async saveCollection(collection: string, changes: CollectionChanges) {
+        const db = await this.getDB();
+        const tx = db.transaction(
+            ["hnsw-collections", ...COLLECTION_STORES],
+            "readwrite"
+        );
+        const nodeStore = tx.objectStore("hnsw-nodes");
+        const vectorStore = tx.objectStore("hnsw-vectors");
+        const writes: Promise<unknown>[] = [];
+
+        if (changes.full) {
+            const range = collectionRange(collection);
+            writes.push(nodeStore.delete(range));
+            writes.push(
+                tx.objectStore("hnsw-index").delete([collection, LEGACY_KEY])
+            );
+            // full vectors aren't in memory, only drop the stale ones
+            for (const key of await vectorStore.getAllKeys(range)) {
+                if (!changes.nodes.get(key[1])) {
+                    writes.push(vectorStore.delete(key));
+                }
+            }
+        }
+        for (const [uniqueid, node] of changes.nodes) {
+            if (node) {
+                writes.push(nodeStore.put(node, [collection, uniqueid]));
+            } else {
+                writes.push(nodeStore.delete([collection, uniqueid]));
+                writes.push(vectorStore.delete([collection, uniqueid]));
+            }
+        }
+        for (const [uniqueid, vector] of changes.vectors) {
+            writes.push(vectorStore.put(vector, [collection, uniqueid]));
+        }
+        writes.push(
+            tx.objectStore("hnsw-collections").put(changes.header, collection)
+        );
+
+        await Promise.all([...writes, tx.done]);
+    }
+
+    async getVector(collection: string, uniqueid: string) {
+        const db = await this.getDB();
+        return db.get("hnsw-vectors", [collection, uniqueid]);
+    }
+
+    async forEachVector(
+        collection: string,
+        callback: (uniqueid: string, vector: Float32Array) => void
+    ) {
+        const db = await this.getDB();
+        let cursor = await db
+            .transaction("hnsw-vectors")
+            .store.openCursor(collectionRange(collection));
+        while (cursor) {
+            callback(cursor.key[1], cursor.value);
+            cursor = await cursor.continue();
+        }
+    }
+
+    async saveSnapshot(collection: string, key: string, snapshot: ArrayBuffer) {
+        const db = await this.getDB();
+        await db.put("hnsw-index", snapshot, [collection, key]);
+    }
+
+    async loadSnapshot(collection: string, key: string) {
+        const db = await this.getDB();
+        const snapshot = await db.get("hnsw-index", [collection, key]);
+        return snapshot instanceof ArrayBuffer ? snapshot : undefined;
+    }
+
+    async listCollections(): Promise<CollectionInfo[]> {
+        const db = await this.getDB();
+        const tx = db.transaction(["hnsw-collections", "hnsw-nodes"]);
+        const names = await tx.objectStore("hnsw-collections").getAllKeys();
+        return Promise.all(
+            names.map(async (name) =>
+                collectionInfo(
+                    name,
+                    (await tx.objectStore("hnsw-collections").get(name))!,
+                    await tx
+                        .objectStore("hnsw-nodes")
+                        .count(collectionRange(name))
+                )
+            )
+        );
+    }
+
+    async dropCollection(collection: string) {
+        const db = await this.getDB();
+        const tx = db.transaction(
+            ["hnsw-collections", ...COLLECTION_STORES],
+            "readwrite"
+        );
+        await Promise.all([
+            tx.objectStore("hnsw-collections").delete(collection),
+            ...COLLECTION_STORES.map((storeName) =>
+                tx.objectStore(storeName).delete(collectionRange(collection))
+            ),
+            tx.done,
+        ]);
+    }
+
+    async renameCollection(from: string, to: string) {
+        const db = await this.getDB();
+        const tx = db.transaction(
+            ["hnsw-collections", ...COLLECTION_STORES],
+            "readwrite"
+        );
+        const collections = tx.objectStore("hnsw-collections");
+        const header = await collections.get(from);
+        if (!header) {
+            throw new Error(`No collection named ${from}`);
+        }
+        if (await collections.getKey(to)) {
+            throw new Error(`A collection named ${to} already exists`);
+        }
+        await collections.put(header, to);
+        await collections.delete(from);
+
+        for (const storeName of COLLECTION_STORES) {
+            const store = tx.objectStore(storeName);
+            let cursor = await store.openCursor(collectionRange(from));
+            while (cursor) {
+                await store.put(cursor.value, [to, cursor.key[1]]);
+                await cursor.delete();
+                cursor = await cursor.continue();
+            }
+        }
+        await tx.done;
+    }
+
+    /**
+     * Copies the collections of another database, e.g. one left behind when
+     * the database name was changed, into this one. Collections that already
+     * have nodes in the target are skipped. Records of an older format get
+     * migrated when the collections are loaded.
+     * @param fromDbName
+     * @param toDbName
+     * @param deleteSource - delete the source database once copied, it is
+     * kept if any collection was skipped since it holds their only copy
+     * @returns the names of the copied collections
+     */
+    static async importDatabase(
+        fromDbName: string,
+        toDbName: string,
+        deleteSource = false
+    ) {
+        if (!(await databaseExists(fromDbName))) return [];
+
+        const source = await openVaultDB(fromDbName);
+        const target = await openVaultDB(toDbName);
+        const imported: string[] = [];
+        let skipped = false;
+        try {
+            // a legacy blob has no header, only its record in hnsw-index
+            const names = new Set(await source.getAllKeys("hnsw-collections"));
+            for (const [name] of await source.getAllKeys("hnsw-index")) {
+                names.add(name);
+            }
+
+            for (const name of names) {
+                const range = collectionRange(name);
+                if ((await target.count("hnsw-nodes", range)) > 0) {
+                    skipped = true;
+                    continue;
+                }
+
+                const header = await source.get("hnsw-collections", name);
+                const records = await Promise.all(
+                    COLLECTION_STORES.map(async (storeName) => ({
+                        storeName,
+                        keys: await source.getAllKeys(storeName, range),
+                        values: await source.getAll(storeName, range),
+                    }))
+                );
+
+                const tx = target.transaction(
+                    ["hnsw-collections", ...COLLECTION_STORES],
+                    "readwrite"
+                );
+                const writes: Promise<unknown>[] = [];
+                if (header) {
+                    writes.push(
+                        tx.objectStore("hnsw-collections").put(header, name)
+                    );
+                } else {
+                    // so the legacy blob is what gets loaded
+                    writes.push(
+                        tx.objectStore("hnsw-collections").delete(name)
+                    );
+                }
+                for (const { storeName, keys, values } of records) {
+                    const store = tx.objectStore(storeName);
+                    writes.push(store.delete(range));
+                    keys.forEach((key, i) => {
+                        writes.push(store.put(values[i], key));
+                    });
+                }
+                await Promise.all([...writes, tx.done]);
+                imported.push(name);
+            }
+        } finally {
+            source.close();
+            target.close();
+        }
+
+        if (deleteSource && !skipped) await deleteDB(fromDbName);
+        return imported;
+    }
+}
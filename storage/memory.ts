@@ -0,0 +1,113 @@
+import {
+    CollectionChanges,
+    CollectionInfo,
+    StorageAdapter,
+    collectionInfo,
+} from "./adapter";
+
+interface StoredCollection {
+    // undefined until the collection is saved, e.g. when only a snapshot is
+    header?: Record<string, any>;
+    nodes: Map<string, Record<string, any>>;
+    vectors: Map<string, Float32Array>;
+    snapshots: Map<string, ArrayBuffer>;
+}
+
+/**
+ * Keeps the collections in memory, e.g. for tests or throwaway indexes.
+ * Records are copied in and out so they behave like stored data.
+ */
+export class MemoryStorage implements StorageAdapter {
+    private collections = new Map<string, StoredCollection>();
+
+    private getCollection(collection: string) {
+        let stored = this.collections.get(collection);
+        if (!stored) {
+            stored = {
+                nodes: new Map(),
+                vectors: new Map(),
+                snapshots: new Map(),
+            };
+            this.collections.set(collection, stored);
+        }
+        return stored;
+    }
+
+    async loadCollection(collection: string) {
+        const stored = this.collections.get(collection);
+        if (!stored?.header) return undefined;
+        return structuredClone({
+            ...stored.header,
+            nodes: Array.from(stored.nodes),
+        });
+    }
+
+    async saveCollection(collection: string, changes: CollectionChanges) {
+        const stored = this.getCollection(collection);
+        if (changes.full) stored.nodes.clear();
+        for (const [uniqueid, node] of changes.nodes) {
+            if (node) {
+                stored.nodes.set(uniqueid, structuredClone(node));
+            } else {
+                stored.nodes.delete(uniqueid);
+            }
+        }
+        for (const uniqueid of stored.vectors.keys()) {
+            if (!stored.nodes.has(uniqueid)) stored.vectors.delete(uniqueid);
+        }
+        for (const [uniqueid, vector] of changes.vectors) {
+            stored.vectors.set(uniqueid, vector.slice());
+        }
+        stored.header = structuredClone(changes.header);
+    }
+
+    async getVector(collection: string, uniqueid: string) {
+        return this.collections.get(collection)?.vectors.get(uniqueid)?.slice();
+    }
+
+    async forEachVector(
+        collection: string,
+        callback: (uniqueid: string, vector: Float32Array) => void
+    ) {
+        const vectors = this.collections.get(collection)?.vectors ?? [];
+        for (const [uniqueid, vector] of vectors) {
+            callback(uniqueid, vector.slice());
+        }
+    }
+
+    async saveSnapshot(collection: string, key: string, snapshot: ArrayBuffer) {
+        this.getCollection(collection).snapshots.set(key, snapshot.slice(0));
+    }
+
+    async loadSnapshot(collection: string, key: string) {
+        return this.collections.get(collection)?.snapshots.get(key)?.slice(0);
+    }
+
+    async listCollections(): Promise<CollectionInfo[]> {
+        const infos: CollectionInfo[] = [];
+        for (const [name, stored] of this.collections) {
+            if (stored.header) {
+                infos.push(
+                    collectionInfo(name, stored.header, stored.nodes.size)
+                );
+            }
+        }
+        return infos;
+    }
+
+    async dropCollection(collection: string) {
+        this.collections.delete(collection);
+    }
+
+    async renameCollection(from: string, to: string) {
+        const stored = this.collections.get(from);
+        if (!stored?.header) {
+            throw new Error(`No collection named ${from}`);
+        }
+        if (this.collections.get(to)?.header) {
+            throw new Error(`A collection named ${to} already exists`);
+        }
+        this.collections.delete(from);
+        this.collections.set(to, stored);
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Two-way sync of an index with another copy of it (e.g. the cloud, or
+ * another device). Each node carries the sequence number of its last change
+ * (its version) and the time of that change (updatedAt), removed nodes leave
+ * a tombstone with the same stamps. HNSW.getChangesSince exports what
+ * changed after a cursor, HNSW.applySyncChanges imports the changes of the
+ * other copy, the most recent change of a node winning.
+ */
+
+/**
+ * Current state of a node, replacing the one of the other copy
+ */
+export interface SyncUpsert {
+    uniqueid: string;
+    vector: number[];
+    metadata?: Record<string, any>;
+    text?: string;
+    // time of the change in ms since the epoch, e.g. Date.now()
+    updatedAt: number;
+}
+
+export interface SyncDelete {
+    uniqueid: string;
+    updatedAt: number;
+}
+
+export interface SyncChangeset {
+    // to pass to the next getChangesSince call, to only get newer changes
+    cursor: number;
+    upserts: SyncUpsert[];
+    deletes: SyncDelete[];
+}
+
+/**
+ * Stamps of a removed node, kept once the node is vacuumed so its removal
+ * can still be synced
+ */
+export interface Tombstone {
+    version: number;
+    updatedAt: number;
+}
+
+/**
+ * Ids of the nodes changed by applySyncChanges
+ */
+export interface SyncSummary {
+    added: string[];
+    updated: string[];
+    removed: string[];
+    // older than the local change, or already up to date
+    skipped: string[];
+    // invalid changes, e.g. a vector of the wrong dimension, with the
+    // reason they were rejected
+    failed: { uniqueid: string; error: string }[];
+}
+
+/**
+ * Last-writer-wins: whether a change of the other copy replaces the local
+ * state of a node. On a tie a removal wins, so both copies end up the same
+ * whichever syncs first; between two upserts the local one is kept.
+ * @param local time of the local change, undefined if the node is unknown
+ * @param remote time of the incoming change
+ * @param remoteIsDelete
+ * @param localIsDelete
+ * @returns
+ */
+export function remoteWins(
+    local: number | undefined,
+    remote: number,
+    remoteIsDelete: boolean,
+    localIsDelete: boolean
+) {
+    if (local === undefined || remote > local) return true;
+    if (remote < local) return false;
+    return remoteIsDelete && !localIsDelete;
+}
@@ -0,0 +1,121 @@
+/**
+ * In-memory inverted index over the text of the nodes, scored with BM25.
+ * Catches exact terms (error codes, names) that embeddings tend to miss.
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+export interface TextMatch {
+    uniqueid: string;
+    score: number;
+}
+
+/**
+ * Lowercased runs of letters, digits and underscores
+ * @param text
+ * @returns
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+export class TextIndex {
+    // term -> uniqueid -> number of occurrences in that document
+    private postings = new Map<string, Map<string, number>>();
+    private documents = new Map<string, { text: string; length: number }>();
+    private totalLength = 0;
+
+    /**
+     * Indexes the text of a document, replacing its previous text
+     * @param uniqueid
+     * @param text
+     */
+    add(uniqueid: string, text: string) {
+        this.remove(uniqueid);
+
+        const terms = tokenize(text);
+        for (const term of terms) {
+            let documents = this.postings.get(term);
+            if (!documents) {
+                documents = new Map<string, number>();
+                this.postings.set(term, documents);
+            }
+            documents.set(uniqueid, (documents.get(uniqueid) ?? 0) + 1);
+        }
+        this.documents.set(uniqueid, { text, length: terms.length });
+        this.totalLength += terms.length;
+    }
+
+    remove(uniqueid: string) {
+        const document = this.documents.get(uniqueid);
+        if (!document) return;
+
+        for (const term of new Set(tokenize(document.text))) {
+            const documents = this.postings.get(term);
+            documents?.delete(uniqueid);
+            if (documents?.size === 0) this.postings.delete(term);
+        }
+        this.documents.delete(uniqueid);
+        this.totalLength -= document.length;
+    }
+
+    /**
+     * @param uniqueid
+     * @returns the indexed text of the document, undefined if not indexed
+     */
+    getText(uniqueid: string) {
+        return this.documents.get(uniqueid)?.text;
+    }
+
+    clear() {
+        this.postings.clear();
+        this.documents.clear();
+        this.totalLength = 0;
+    }
+
+    size() {
+        return this.documents.size;
+    }
+
+    /**
+     * Ranks the documents containing any of the query terms with BM25
+     * @param query
+     * @param K max number of matches to return
+     * @param filter only documents passing the filter are returned
+     * @returns the best matches, highest score first
+     */
+    search(
+        query: string,
+        K: number,
+        filter?: (uniqueid: string) => boolean
+    ): TextMatch[] {
+        const documentCount = this.documents.size;
+        if (documentCount === 0) return [];
+        const averageLength = this.totalLength / documentCount || 1;
+
+        const scores = new Map<string, number>();
+        for (const term of new Set(tokenize(query))) {
+            const documents = this.postings.get(term);
+            if (!documents) continue;
+
+            const idf = Math.log(
+                1 +
+                    (documentCount - documents.size + 0.5) /
+                        (documents.size + 0.5)
+            );
+            for (const [uniqueid, frequency] of documents) {
+                if (filter && !filter(uniqueid)) continue;
+                const length = this.documents.get(uniqueid)!.length;
+                const score =
+                    (idf * frequency * (K1 + 1)) /
+                    (frequency +
+                        K1 * (1 - B + (B * length) / averageLength));
+                scores.set(uniqueid, (scores.get(uniqueid) ?? 0) + score);
+            }
+        }
+
+        return Array.from(scores, ([uniqueid, score]) => ({ uniqueid, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, K);
+    }
+}